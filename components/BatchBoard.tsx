@@ -0,0 +1,120 @@
+import React from 'react';
+import { Theme } from '../types';
+import { UiStrings } from '../services/i18n';
+import { SavedSession } from '../services/sessions';
+import { BatchMember, BatchSession, getMemberProgress } from '../services/batch';
+import { RetailerDefinition, buildRetailerUrl } from '../services/retailers';
+import { ExternalLinkIcon } from './icons';
+import { hoverScale } from './hover';
+
+interface BatchBoardProps {
+  theme: Theme;
+  t: UiStrings;
+  batch: BatchSession;
+  sessions: SavedSession[];
+  getRetailers: (market: string) => RetailerDefinition[];
+  // Starts the member's interview, or reopens it where it was left
+  onOpenMember: (member: BatchMember) => void;
+  onDelete: () => void;
+}
+
+// One card per person: their progress, and their recommendations once they have them.
+export const BatchBoard = ({ theme, t, batch, sessions, getRetailers, onOpenMember, onDelete }: BatchBoardProps) => {
+  const progress = batch.members.map(member => getMemberProgress(sessions.find(s => s.id === member.sessionId)));
+  const done = progress.filter(p => p.status === 'done').length;
+
+  return (
+    <div style={{ width: '100%', display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
+      <h2 className="stagger-in" style={{ fontSize: '2.5rem', fontWeight: 800, textAlign: 'center', margin: '0 0 0.5rem 0' }}>
+        {t.batchBoardTitle}
+      </h2>
+      <p className="stagger-in" style={{ opacity: 0.7, fontSize: '1.1rem', margin: '0 0 2.5rem 0' }}>
+        {t.batchBoardSummary(batch.occasion, done, batch.members.length)}
+      </p>
+
+      <div style={{ width: '100%', display: 'flex', flexDirection: 'column', gap: '1.25rem' }}>
+        {batch.members.map((member, i) => {
+          const state = progress[i];
+          const session = sessions.find(s => s.id === member.sessionId);
+          const retailer = session ? getRetailers(session.market)[0] : undefined;
+          return (
+            <section
+              key={member.sessionId}
+              className="stagger-in"
+              aria-label={member.name}
+              style={{ backgroundColor: theme.secondary, borderRadius: '24px', padding: '1.25rem 1.5rem' }}
+            >
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem', flexWrap: 'wrap' }}>
+                <div>
+                  <h3 style={{ margin: 0, fontSize: '1.25rem', fontWeight: 700 }}>{member.name}</h3>
+                  <span style={{ fontSize: '0.9rem', opacity: 0.7 }}>
+                    {state.status === 'notStarted' ? t.batchNotStarted
+                      : state.status === 'inProgress' ? t.progress(Math.min(state.question, state.total), state.total)
+                      : t.batchIdeas(state.ideas)}
+                  </span>
+                </div>
+                <button
+                  onClick={() => onOpenMember(member)}
+                  style={{
+                    backgroundColor: state.status === 'done' ? 'transparent' : theme.primary,
+                    color: state.status === 'done' ? theme.text : theme.bg,
+                    border: `2px solid ${theme.primary}`,
+                    borderRadius: '50px',
+                    padding: '0.6rem 1.5rem',
+                    fontSize: '0.95rem',
+                    fontWeight: 600,
+                    cursor: 'pointer'
+                  }}
+                  {...hoverScale()}
+                >
+                  {state.status === 'notStarted' ? t.batchStart : state.status === 'inProgress' ? t.batchContinue : t.batchReopen}
+                </button>
+              </div>
+
+              {state.status === 'done' && session && (
+                <ul style={{ listStyle: 'none', padding: 0, margin: '1rem 0 0 0', display: 'flex', flexWrap: 'wrap', gap: '0.5rem' }}>
+                  {session.data.recommendations.map((gift, idx) => (
+                    <li key={idx}>
+                      {retailer ? (
+                        <a
+                          href={buildRetailerUrl(retailer, gift.name)}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          title={gift.rationale}
+                          style={{
+                            display: 'flex',
+                            alignItems: 'center',
+                            gap: '0.25rem',
+                            backgroundColor: theme.bg,
+                            color: theme.text,
+                            borderRadius: '50px',
+                            padding: '0.4rem 0.9rem',
+                            fontSize: '0.9rem',
+                            textDecoration: 'none'
+                          }}
+                        >
+                          {gift.name}
+                          <ExternalLinkIcon />
+                        </a>
+                      ) : (
+                        <span style={{ backgroundColor: theme.bg, borderRadius: '50px', padding: '0.4rem 0.9rem', fontSize: '0.9rem' }}>{gift.name}</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+          );
+        })}
+      </div>
+
+      <button
+        className="stagger-in"
+        onClick={onDelete}
+        style={{ marginTop: '2rem', background: 'transparent', border: 'none', color: theme.text, opacity: 0.6, fontSize: '0.9rem', fontWeight: 600, cursor: 'pointer' }}
+      >
+        {t.batchDelete}
+      </button>
+    </div>
+  );
+};
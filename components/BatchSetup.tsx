@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import gsap from 'gsap';
+import { Theme } from '../types';
+import { UiStrings } from '../services/i18n';
+import { RecipientProfile } from '../services/profiles';
+import { todayIso } from '../services/occasion';
+import { hoverEffect } from './hover';
+
+interface BatchSetupProps {
+  theme: Theme;
+  t: UiStrings;
+  profiles: RecipientProfile[];
+  // Options of the shared occasion question, in the interview language
+  occasions: string[];
+  // The date is optional and shared by everyone in the batch
+  onCreate: (setup: { names: string[]; profiles: RecipientProfile[]; occasion: string; date: string | null }) => void;
+  onCancel: () => void;
+}
+
+export const BatchSetup = ({ theme, t, profiles, occasions, onCreate, onCancel }: BatchSetupProps) => {
+  const [names, setNames] = useState("");
+  const [picked, setPicked] = useState<string[]>([]);
+  const [occasion, setOccasion] = useState<string | null>(null);
+  const [date, setDate] = useState("");
+
+  const typedNames = Array.from(new Set<string>(names.split('\n').map(n => n.trim()).filter(Boolean)));
+  const ready = occasion !== null && typedNames.length + picked.length > 0;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!ready) return;
+    onCreate({ names: typedNames, profiles: profiles.filter(p => picked.includes(p.id)), occasion: occasion!, date: date || null });
+  };
+
+  const headingStyle: React.CSSProperties = {
+    fontSize: '0.85rem',
+    textTransform: 'uppercase',
+    letterSpacing: '1px',
+    opacity: 0.6,
+    margin: '0 0 0.75rem 0',
+    textAlign: 'left'
+  };
+
+  const chipStyle = (selected: boolean): React.CSSProperties => ({
+    backgroundColor: selected ? theme.primary : theme.secondary,
+    color: selected ? theme.bg : theme.text,
+    border: 'none',
+    borderRadius: '50px',
+    padding: '0.5rem 1rem',
+    fontSize: '0.95rem',
+    fontWeight: 500,
+    cursor: 'pointer'
+  });
+
+  return (
+    <form onSubmit={handleSubmit} style={{ width: '100%', maxWidth: '500px', display: 'flex', flexDirection: 'column', gap: '2rem' }}>
+      <h2 className="stagger-in" style={{ fontSize: '2rem', fontWeight: 700, textAlign: 'center', margin: 0 }}>{t.batchTitle}</h2>
+
+      {profiles.length > 0 && (
+        <fieldset className="stagger-in" style={{ border: 'none', padding: 0, margin: 0 }}>
+          <legend style={headingStyle}>{t.batchProfiles}</legend>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem' }}>
+            {profiles.map(profile => {
+              const selected = picked.includes(profile.id);
+              return (
+                <button
+                  key={profile.id}
+                  type="button"
+                  aria-pressed={selected}
+                  onClick={() => setPicked(prev => selected ? prev.filter(id => id !== profile.id) : [...prev, profile.id])}
+                  style={chipStyle(selected)}
+                >
+                  {profile.name}
+                </button>
+              );
+            })}
+          </div>
+        </fieldset>
+      )}
+
+      <label className="stagger-in" style={{ display: 'flex', flexDirection: 'column' }}>
+        <span style={headingStyle}>{t.batchNames}</span>
+        <textarea
+          rows={4}
+          value={names}
+          onChange={(e) => setNames(e.target.value)}
+          placeholder={t.batchNamesPlaceholder}
+          style={{
+            padding: '1rem 1.25rem',
+            borderRadius: '16px',
+            border: 'none',
+            backgroundColor: theme.secondary,
+            color: theme.text,
+            fontSize: '1rem',
+            fontFamily: 'inherit',
+            resize: 'vertical',
+            outline: 'none'
+          }}
+        />
+      </label>
+
+      <fieldset className="stagger-in" style={{ border: 'none', padding: 0, margin: 0 }}>
+        <legend style={headingStyle}>{t.batchOccasion}</legend>
+        <div role="radiogroup" style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem' }}>
+          {occasions.map(option => (
+            <button
+              key={option}
+              type="button"
+              role="radio"
+              aria-checked={occasion === option}
+              onClick={() => setOccasion(option)}
+              style={chipStyle(occasion === option)}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </fieldset>
+
+      <label className="stagger-in" style={{ display: 'flex', flexDirection: 'column' }}>
+        <span style={headingStyle}>{t.occasionDate}</span>
+        <input
+          type="date"
+          value={date}
+          min={todayIso()}
+          onChange={(e) => setDate(e.target.value)}
+          style={{
+            alignSelf: 'flex-start',
+            padding: '0.8rem 1.25rem',
+            borderRadius: '16px',
+            border: 'none',
+            backgroundColor: theme.secondary,
+            color: theme.text,
+            fontSize: '1rem',
+            fontFamily: 'inherit',
+            outline: 'none'
+          }}
+        />
+      </label>
+
+      <div className="stagger-in" style={{ display: 'flex', gap: '1rem', justifyContent: 'center', flexWrap: 'wrap' }}>
+        <button
+          type="submit"
+          disabled={!ready}
+          style={{
+            backgroundColor: theme.primary,
+            color: theme.bg,
+            border: 'none',
+            borderRadius: '50px',
+            boxShadow: '0 4px 12px rgba(0,0,0,0.1)',
+            padding: '1rem 2.5rem',
+            fontSize: '1rem',
+            fontWeight: 700,
+            cursor: ready ? 'pointer' : 'not-allowed',
+            opacity: ready ? 1 : 0.6
+          }}
+          {...hoverEffect(
+            el => { if (ready) gsap.to(el, { scale: 1.05, duration: 0.1 }); },
+            el => gsap.to(el, { scale: 1, duration: 0.1 })
+          )}
+        >
+          {t.batchCreate}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          style={{ background: 'transparent', border: 'none', color: theme.text, opacity: 0.7, padding: '1rem 1.5rem', fontSize: '1rem', fontWeight: 600, cursor: 'pointer' }}
+        >
+          {t.cancel}
+        </button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { Budget, Theme } from '../types';
+import { UiStrings } from '../services/i18n';
+import { CURRENCIES, validateBudget } from '../services/budget';
+import { hoverScale } from './hover';
+
+interface BudgetFormProps {
+  theme: Theme;
+  t: UiStrings;
+  initial: Budget | null;
+  defaultCurrency: string;
+  submitLabel: string;
+  skipLabel: string;
+  onSubmit: (budget: Budget) => void;
+  // Continues without a budget (interview) or clears it (results)
+  onSkip: () => void;
+}
+
+const parseAmount = (value: string) => {
+  const trimmed = value.trim();
+  return trimmed === '' || isNaN(Number(trimmed)) ? null : Number(trimmed);
+};
+
+export const BudgetForm = ({ theme, t, initial, defaultCurrency, submitLabel, skipLabel, onSubmit, onSkip }: BudgetFormProps) => {
+  const [min, setMin] = useState(initial?.min?.toString() ?? "");
+  const [max, setMax] = useState(initial?.max?.toString() ?? "");
+  const [currency, setCurrency] = useState(initial?.currency ?? defaultCurrency);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const budget: Budget = { min: parseAmount(min), max: parseAmount(max), currency };
+    const problem = validateBudget(budget);
+    if (problem) {
+      setError(t.budgetErrors[problem]);
+      return;
+    }
+    onSubmit(budget);
+  };
+
+  const inputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '1rem 1.25rem',
+    borderRadius: '16px',
+    border: 'none',
+    backgroundColor: theme.secondary,
+    boxShadow: 'inset 0 2px 4px rgba(0,0,0,0.05)',
+    color: theme.text,
+    fontSize: '1rem',
+    outline: 'none'
+  };
+
+  const labelStyle: React.CSSProperties = {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '0.4rem',
+    flex: 1,
+    fontSize: '0.85rem',
+    fontWeight: 600,
+    textAlign: 'left'
+  };
+
+  return (
+    <form onSubmit={handleSubmit} style={{ width: '100%', maxWidth: '500px', display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '1rem' }}>
+      <div style={{ display: 'flex', gap: '0.75rem', width: '100%', flexWrap: 'wrap' }}>
+        <label style={labelStyle}>
+          {t.budgetMin}
+          <input type="number" min="0" inputMode="numeric" value={min} onChange={(e) => setMin(e.target.value)} style={inputStyle} />
+        </label>
+        <label style={labelStyle}>
+          {t.budgetMax}
+          <input type="number" min="0" inputMode="numeric" value={max} onChange={(e) => setMax(e.target.value)} style={inputStyle} />
+        </label>
+        <label style={{ ...labelStyle, flex: '0 0 110px' }}>
+          {t.budgetCurrency}
+          <select value={currency} onChange={(e) => setCurrency(e.target.value)} style={inputStyle}>
+            {CURRENCIES.map(code => <option key={code} value={code}>{code}</option>)}
+          </select>
+        </label>
+      </div>
+
+      {error && (
+        <p role="alert" style={{ margin: 0, color: theme.accent, fontWeight: 600, fontSize: '0.9rem' }}>{error}</p>
+      )}
+
+      <div style={{ display: 'flex', gap: '1rem', flexWrap: 'wrap', justifyContent: 'center', marginTop: '0.5rem' }}>
+        <button
+          type="submit"
+          style={{
+            backgroundColor: theme.primary,
+            color: theme.bg,
+            border: 'none',
+            borderRadius: '50px',
+            boxShadow: '0 4px 12px rgba(0,0,0,0.1)',
+            padding: '1rem 2.5rem',
+            fontSize: '1rem',
+            fontWeight: 700,
+            cursor: 'pointer'
+          }}
+          {...hoverScale()}
+        >
+          {submitLabel}
+        </button>
+        <button
+          type="button"
+          onClick={onSkip}
+          style={{
+            background: 'transparent',
+            border: 'none',
+            color: theme.text,
+            opacity: 0.7,
+            padding: '1rem 1.5rem',
+            fontSize: '1rem',
+            fontWeight: 600,
+            cursor: 'pointer'
+          }}
+        >
+          {skipLabel}
+        </button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { Theme } from '../types';
+import { UiStrings } from '../services/i18n';
+import { todayIso } from '../services/occasion';
+
+interface ExportMenuProps {
+  theme: Theme;
+  t: UiStrings;
+  onPrint: () => void;
+  onMarkdown: () => void;
+  onCsv: () => void;
+  // Date of the occasion as YYYY-MM-DD; pre-filled from the session when known
+  initialDate: string | null;
+  onReminder: (date: string) => void;
+}
+
+export const ExportMenu = ({ theme, t, onPrint, onMarkdown, onCsv, initialDate, onReminder }: ExportMenuProps) => {
+  const [open, setOpen] = useState(false);
+  const [date, setDate] = useState(initialDate ?? "");
+
+  const itemStyle: React.CSSProperties = {
+    backgroundColor: theme.secondary,
+    color: theme.text,
+    border: 'none',
+    borderRadius: '50px',
+    padding: '0.5rem 1rem',
+    fontSize: '0.9rem',
+    fontWeight: 600,
+    cursor: 'pointer'
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '0.75rem' }}>
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        aria-expanded={open}
+        aria-controls="export-options"
+        style={{
+          background: 'transparent',
+          border: 'none',
+          color: theme.text,
+          opacity: 0.8,
+          padding: '0.5rem 1rem',
+          fontSize: '0.95rem',
+          fontWeight: 600,
+          cursor: 'pointer'
+        }}
+      >
+        {t.exportButton} {open ? '▴' : '▾'}
+      </button>
+
+      {open && (
+        <div id="export-options" style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '0.75rem' }}>
+          <div style={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'center', gap: '0.5rem' }}>
+            <button onClick={onPrint} style={itemStyle}>{t.exportPrint}</button>
+            <button onClick={onMarkdown} style={itemStyle}>{t.exportMarkdown}</button>
+            <button onClick={onCsv} style={itemStyle}>{t.exportCsv}</button>
+          </div>
+          <form
+            onSubmit={(e) => { e.preventDefault(); if (date) onReminder(date); }}
+            style={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'center', alignItems: 'center', gap: '0.5rem', fontSize: '0.9rem' }}
+          >
+            <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontWeight: 500 }}>
+              {t.exportDate}
+              <input
+                type="date"
+                value={date}
+                min={todayIso()}
+                onChange={(e) => setDate(e.target.value)}
+                style={{ ...itemStyle, fontWeight: 500, fontFamily: 'inherit', cursor: 'text' }}
+              />
+            </label>
+            <button type="submit" disabled={!date} style={{ ...itemStyle, opacity: date ? 1 : 0.5, cursor: date ? 'pointer' : 'not-allowed' }}>
+              {t.exportReminder}
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
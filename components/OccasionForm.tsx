@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import gsap from 'gsap';
+import { Theme } from '../types';
+import { UiStrings } from '../services/i18n';
+import { todayIso } from '../services/occasion';
+import { hoverEffect } from './hover';
+
+interface OccasionFormProps {
+  theme: Theme;
+  t: UiStrings;
+  // Options of the occasion question, in the interview language
+  occasions: string[];
+  initialDate: string | null;
+  // Either may be null when left out
+  onSubmit: (choice: { occasion: string | null; date: string | null }) => void;
+  onSkip: () => void;
+}
+
+export const OccasionForm = ({ theme, t, occasions, initialDate, onSubmit, onSkip }: OccasionFormProps) => {
+  const [occasion, setOccasion] = useState<string | null>(null);
+  const [date, setDate] = useState(initialDate ?? "");
+  const ready = occasion !== null || date !== "";
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!ready) return;
+    onSubmit({ occasion, date: date || null });
+  };
+
+  const chipStyle = (selected: boolean): React.CSSProperties => ({
+    backgroundColor: selected ? theme.primary : theme.secondary,
+    color: selected ? theme.bg : theme.text,
+    border: 'none',
+    borderRadius: '50px',
+    padding: '0.6rem 1.1rem',
+    fontSize: '0.95rem',
+    fontWeight: 500,
+    cursor: 'pointer'
+  });
+
+  return (
+    <form onSubmit={handleSubmit} style={{ width: '100%', maxWidth: '560px', display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '2rem' }}>
+      <div role="radiogroup" aria-label={t.occasionTitle} style={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'center', gap: '0.5rem' }}>
+        {occasions.map(option => (
+          <button
+            key={option}
+            type="button"
+            role="radio"
+            aria-checked={occasion === option}
+            onClick={() => setOccasion(prev => prev === option ? null : option)}
+            style={chipStyle(occasion === option)}
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+
+      <label style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '0.5rem', fontSize: '0.95rem', fontWeight: 600 }}>
+        {t.occasionDate}
+        <input
+          type="date"
+          value={date}
+          min={todayIso()}
+          onChange={(e) => setDate(e.target.value)}
+          style={{
+            padding: '0.8rem 1.25rem',
+            borderRadius: '16px',
+            border: 'none',
+            backgroundColor: theme.secondary,
+            color: theme.text,
+            fontSize: '1rem',
+            fontFamily: 'inherit',
+            outline: 'none'
+          }}
+        />
+      </label>
+
+      <div style={{ display: 'flex', gap: '1rem', justifyContent: 'center', flexWrap: 'wrap' }}>
+        <button
+          type="submit"
+          disabled={!ready}
+          style={{
+            backgroundColor: theme.primary,
+            color: theme.bg,
+            border: 'none',
+            borderRadius: '50px',
+            boxShadow: '0 4px 12px rgba(0,0,0,0.1)',
+            padding: '1rem 2.5rem',
+            fontSize: '1rem',
+            fontWeight: 700,
+            cursor: ready ? 'pointer' : 'not-allowed',
+            opacity: ready ? 1 : 0.6
+          }}
+          {...hoverEffect(
+            el => { if (ready) gsap.to(el, { scale: 1.05, duration: 0.1 }); },
+            el => gsap.to(el, { scale: 1, duration: 0.1 })
+          )}
+        >
+          {t.occasionContinue}
+        </button>
+        <button
+          type="button"
+          onClick={onSkip}
+          style={{ background: 'transparent', border: 'none', color: theme.text, opacity: 0.7, padding: '1rem 1.5rem', fontSize: '1rem', fontWeight: 600, cursor: 'pointer' }}
+        >
+          {t.occasionSkip}
+        </button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { Theme } from '../types';
+import { UiStrings } from '../services/i18n';
+import { RecipientProfile } from '../services/profiles';
+import { CloseIcon } from './icons';
+import { useDialog } from './dialog';
+
+interface ProfileEditorProps {
+  theme: Theme;
+  t: UiStrings;
+  profile: RecipientProfile;
+  onSave: (profile: RecipientProfile) => void;
+  onClose: () => void;
+}
+
+// Lists are edited one entry per line, since gift names may contain commas.
+const toLines = (items: string[]) => items.join('\n');
+const fromLines = (text: string) => Array.from(new Set(text.split('\n').map(line => line.trim()).filter(Boolean)));
+
+export const ProfileEditor = ({ theme, t, profile, onSave, onClose }: ProfileEditorProps) => {
+  const dialog = useDialog(onClose);
+  const [name, setName] = useState(profile.name);
+  const [relationship, setRelationship] = useState(profile.relationship);
+  const [ageRange, setAgeRange] = useState(profile.ageRange);
+  const [interests, setInterests] = useState(toLines(profile.interests));
+  const [dislikes, setDislikes] = useState(toLines(profile.dislikes));
+  const [pastGifts, setPastGifts] = useState(toLines(profile.pastGifts));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onSave({
+      ...profile,
+      name: name.trim(),
+      relationship: relationship.trim(),
+      ageRange: ageRange.trim(),
+      interests: fromLines(interests),
+      dislikes: fromLines(dislikes),
+      pastGifts: fromLines(pastGifts),
+      updatedAt: Date.now()
+    });
+  };
+
+  const inputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '0.6rem 0.9rem',
+    borderRadius: '10px',
+    border: 'none',
+    backgroundColor: theme.secondary,
+    color: theme.text,
+    fontSize: '0.95rem',
+    fontFamily: 'inherit',
+    outline: 'none',
+    boxSizing: 'border-box'
+  };
+
+  const labelStyle: React.CSSProperties = {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '0.35rem',
+    marginBottom: '0.9rem',
+    fontSize: '0.85rem',
+    fontWeight: 600
+  };
+
+  const listField = (label: string, value: string, onChange: (value: string) => void) => (
+    <label style={labelStyle}>
+      {label}
+      <textarea rows={3} value={value} onChange={(e) => onChange(e.target.value)} style={{ ...inputStyle, resize: 'vertical' }} />
+    </label>
+  );
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label={t.profileEditorTitle}
+      onClick={onClose}
+      style={{
+        position: 'fixed',
+        inset: 0,
+        backgroundColor: 'rgba(0,0,0,0.4)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 50,
+        padding: '1rem'
+      }}
+    >
+      <form
+        onSubmit={handleSubmit}
+        onClick={(e) => e.stopPropagation()}
+        {...dialog}
+        style={{
+          outline: 'none',
+          backgroundColor: theme.bg,
+          color: theme.text,
+          borderRadius: '24px',
+          padding: '2rem',
+          width: '100%',
+          maxWidth: '420px',
+          maxHeight: '90vh',
+          overflowY: 'auto',
+          boxShadow: '0 24px 48px rgba(0,0,0,0.25)'
+        }}
+      >
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1.5rem' }}>
+          <h2 style={{ margin: 0, fontSize: '1.5rem', fontWeight: 700 }}>{t.profileEditorTitle}</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label={t.closeProfileEditor}
+            style={{ background: 'transparent', border: 'none', color: theme.text, cursor: 'pointer', padding: '6px', display: 'flex', alignItems: 'center' }}
+          >
+            <CloseIcon />
+          </button>
+        </div>
+
+        <label style={labelStyle}>
+          {t.profileName}
+          <input required value={name} onChange={(e) => setName(e.target.value)} style={inputStyle} />
+        </label>
+        <label style={labelStyle}>
+          {t.profileRelationship}
+          <input value={relationship} onChange={(e) => setRelationship(e.target.value)} style={inputStyle} />
+        </label>
+        <label style={labelStyle}>
+          {t.profileAgeRange}
+          <input value={ageRange} onChange={(e) => setAgeRange(e.target.value)} style={inputStyle} />
+        </label>
+
+        <p style={{ fontSize: '0.85rem', opacity: 0.7, margin: '0 0 0.9rem 0' }}>{t.profileListHint}</p>
+        {listField(t.profileInterests, interests, setInterests)}
+        {listField(t.profileDislikes, dislikes, setDislikes)}
+        {listField(t.profilePastGifts, pastGifts, setPastGifts)}
+
+        <div style={{ display: 'flex', gap: '1rem', justifyContent: 'flex-end', marginTop: '0.5rem' }}>
+          <button
+            type="button"
+            onClick={onClose}
+            style={{ background: 'transparent', border: 'none', color: theme.text, opacity: 0.7, padding: '0.8rem 1.25rem', fontSize: '1rem', fontWeight: 600, cursor: 'pointer' }}
+          >
+            {t.cancel}
+          </button>
+          <button
+            type="submit"
+            style={{
+              backgroundColor: theme.primary,
+              color: theme.bg,
+              border: 'none',
+              borderRadius: '50px',
+              padding: '0.8rem 2rem',
+              fontSize: '1rem',
+              fontWeight: 700,
+              cursor: 'pointer'
+            }}
+          >
+            {t.profileSave}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
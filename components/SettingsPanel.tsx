@@ -0,0 +1,281 @@
+import React, { useState } from 'react';
+import { Theme } from '../types';
+import { RetailerPreferences, orderRetailers, moveRetailer, toggleRetailer } from '../services/retailers';
+import { Language, LANGUAGES, MARKETS, LocaleSettings, UiStrings } from '../services/i18n';
+import { THEMES, ThemeMode, ThemePreferences } from '../services/themes';
+import { ThemeEditor } from './ThemeEditor';
+import { ChevronUpIcon, ChevronDownIcon, CloseIcon } from './icons';
+import { useDialog } from './dialog';
+
+interface SettingsPanelProps {
+  theme: Theme;
+  t: UiStrings;
+  locale: LocaleSettings;
+  onLocaleChange: (locale: LocaleSettings) => void;
+  retailerPrefs: RetailerPreferences;
+  onRetailerPrefsChange: (prefs: RetailerPreferences) => void;
+  themePrefs: ThemePreferences;
+  onThemePrefsChange: (prefs: ThemePreferences) => void;
+  onClose: () => void;
+}
+
+const THEME_MODES: ThemeMode[] = ['random', 'system', 'pinned'];
+
+export const SettingsPanel = ({
+  theme,
+  t,
+  locale,
+  onLocaleChange,
+  retailerPrefs,
+  onRetailerPrefsChange,
+  themePrefs,
+  onThemePrefsChange,
+  onClose
+}: SettingsPanelProps) => {
+  const dialog = useDialog(onClose);
+  const [editingTheme, setEditingTheme] = useState(false);
+  const retailers = orderRetailers(retailerPrefs, locale.market);
+  const languages = Object.entries(LANGUAGES) as [Language, typeof LANGUAGES[Language]][];
+  const swatches: { id: number | 'custom'; name: string; colors: Theme }[] = [
+    ...THEMES.map((colors, idx) => ({ id: idx, name: colors.name, colors })),
+    ...(themePrefs.custom ? [{ id: 'custom' as const, name: t.themeCustom, colors: themePrefs.custom }] : [])
+  ];
+
+  const iconBtnStyle: React.CSSProperties = {
+    background: 'transparent',
+    border: 'none',
+    color: theme.text,
+    cursor: 'pointer',
+    padding: '6px',
+    display: 'flex',
+    alignItems: 'center'
+  };
+
+  const headingStyle: React.CSSProperties = {
+    fontSize: '0.85rem',
+    textTransform: 'uppercase',
+    letterSpacing: '1px',
+    opacity: 0.6,
+    margin: '0 0 0.5rem 0'
+  };
+
+  const selectStyle: React.CSSProperties = {
+    backgroundColor: theme.secondary,
+    color: theme.text,
+    border: 'none',
+    borderRadius: '10px',
+    padding: '0.5rem 0.75rem',
+    fontSize: '0.95rem'
+  };
+
+  const fieldStyle: React.CSSProperties = {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: '1rem',
+    marginBottom: '0.75rem',
+    fontWeight: 500
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label={t.settings}
+      onClick={onClose}
+      style={{
+        position: 'fixed',
+        inset: 0,
+        backgroundColor: 'rgba(0,0,0,0.4)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 50,
+        padding: '1rem'
+      }}
+    >
+      <div
+        onClick={(e) => e.stopPropagation()}
+        {...dialog}
+        style={{
+          outline: 'none',
+          backgroundColor: theme.bg,
+          color: theme.text,
+          borderRadius: '24px',
+          padding: '2rem',
+          width: '100%',
+          maxWidth: '420px',
+          maxHeight: '90vh',
+          overflowY: 'auto',
+          boxShadow: '0 24px 48px rgba(0,0,0,0.25)'
+        }}
+      >
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1.5rem' }}>
+          <h2 style={{ margin: 0, fontSize: '1.5rem', fontWeight: 700 }}>{t.settings}</h2>
+          <button onClick={onClose} aria-label={t.closeSettings} style={iconBtnStyle}>
+            <CloseIcon />
+          </button>
+        </div>
+
+        <h3 style={headingStyle}>{t.languageHeading}</h3>
+        <div style={{ marginBottom: '2rem' }}>
+          <label style={fieldStyle}>
+            {t.uiLanguage}
+            <select
+              value={locale.uiLanguage}
+              onChange={(e) => onLocaleChange({ ...locale, uiLanguage: e.target.value as Language })}
+              style={selectStyle}
+            >
+              {languages.map(([code, info]) => <option key={code} value={code}>{info.label}</option>)}
+            </select>
+          </label>
+          <label style={fieldStyle}>
+            {t.interviewLanguage}
+            <select
+              value={locale.interviewLanguage}
+              onChange={(e) => onLocaleChange({ ...locale, interviewLanguage: e.target.value as Language })}
+              style={selectStyle}
+            >
+              {languages.map(([code, info]) => <option key={code} value={code}>{info.label}</option>)}
+            </select>
+          </label>
+          <label style={fieldStyle}>
+            {t.market}
+            <select
+              value={locale.market}
+              onChange={(e) => onLocaleChange({ ...locale, market: e.target.value })}
+              style={selectStyle}
+            >
+              {MARKETS.map(m => <option key={m.code} value={m.code}>{m.name}</option>)}
+            </select>
+          </label>
+        </div>
+
+        <h3 style={headingStyle}>{t.themeHeading}</h3>
+        <div style={{ marginBottom: '2rem' }}>
+          <div role="radiogroup" aria-label={t.themeHeading} style={{ display: 'flex', flexDirection: 'column', gap: '0.4rem', marginBottom: '1rem' }}>
+            {THEME_MODES.map(mode => (
+              <label key={mode} style={{ display: 'flex', alignItems: 'center', gap: '0.6rem', cursor: 'pointer', fontWeight: 500 }}>
+                <input
+                  type="radio"
+                  name="theme-mode"
+                  checked={themePrefs.mode === mode}
+                  onChange={() => onThemePrefsChange({ ...themePrefs, mode })}
+                />
+                {t.themeModes[mode]}
+              </label>
+            ))}
+          </div>
+
+          {themePrefs.mode === 'pinned' && (
+            <div role="radiogroup" aria-label={t.themePick} style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem', marginBottom: '1rem' }}>
+              {swatches.map(swatch => {
+                const selected = themePrefs.pinned === swatch.id;
+                return (
+                  <button
+                    key={swatch.id}
+                    role="radio"
+                    aria-checked={selected}
+                    aria-label={swatch.name}
+                    title={swatch.name}
+                    onClick={() => onThemePrefsChange({ ...themePrefs, pinned: swatch.id })}
+                    style={{
+                      width: '36px',
+                      height: '36px',
+                      borderRadius: '50%',
+                      backgroundColor: swatch.colors.bg,
+                      border: `3px solid ${selected ? theme.text : swatch.colors.secondary}`,
+                      display: 'flex',
+                      alignItems: 'center',
+                      justifyContent: 'center',
+                      cursor: 'pointer',
+                      padding: 0
+                    }}
+                  >
+                    <span style={{ width: '12px', height: '12px', borderRadius: '50%', backgroundColor: swatch.colors.primary }} />
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          {editingTheme ? (
+            <ThemeEditor
+              theme={theme}
+              t={t}
+              initial={themePrefs.custom ?? theme}
+              onSave={(custom) => {
+                onThemePrefsChange({ mode: 'pinned', pinned: 'custom', custom });
+                setEditingTheme(false);
+              }}
+              onCancel={() => setEditingTheme(false)}
+            />
+          ) : (
+            <button
+              onClick={() => setEditingTheme(true)}
+              style={{
+                background: 'transparent',
+                border: 'none',
+                color: theme.primary,
+                fontWeight: 600,
+                fontSize: '0.95rem',
+                cursor: 'pointer',
+                textDecoration: 'underline',
+                padding: 0
+              }}
+            >
+              {themePrefs.custom ? t.themeEditCustom : t.themeCreateCustom}
+            </button>
+          )}
+        </div>
+
+        <h3 style={headingStyle}>{t.storesHeading}</h3>
+        <p style={{ fontSize: '0.9rem', opacity: 0.7, margin: '0 0 1rem 0', lineHeight: 1.5 }}>
+          {t.storesHint}
+        </p>
+
+        <ul style={{ listStyle: 'none', padding: 0, margin: 0, display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+          {retailers.map((retailer, idx) => {
+            const enabled = !retailerPrefs.disabled.includes(retailer.id);
+            return (
+              <li key={retailer.id} style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '0.5rem',
+                backgroundColor: theme.secondary,
+                borderRadius: '12px',
+                padding: '0.5rem 0.75rem',
+                opacity: enabled ? 1 : 0.6
+              }}>
+                <label style={{ flex: 1, display: 'flex', alignItems: 'center', gap: '0.6rem', cursor: 'pointer', fontWeight: 500 }}>
+                  <input
+                    type="checkbox"
+                    checked={enabled}
+                    onChange={() => onRetailerPrefsChange(toggleRetailer(retailerPrefs, retailer.id))}
+                  />
+                  {retailer.name}
+                </label>
+                <button
+                  onClick={() => onRetailerPrefsChange(moveRetailer(retailerPrefs, retailer.id, -1, locale.market))}
+                  disabled={idx === 0}
+                  aria-label={t.moveUp(retailer.name)}
+                  style={{ ...iconBtnStyle, opacity: idx === 0 ? 0.3 : 0.8 }}
+                >
+                  <ChevronUpIcon />
+                </button>
+                <button
+                  onClick={() => onRetailerPrefsChange(moveRetailer(retailerPrefs, retailer.id, 1, locale.market))}
+                  disabled={idx === retailers.length - 1}
+                  aria-label={t.moveDown(retailer.name)}
+                  style={{ ...iconBtnStyle, opacity: idx === retailers.length - 1 ? 0.3 : 0.8 }}
+                >
+                  <ChevronDownIcon />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+};
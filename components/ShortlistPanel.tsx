@@ -0,0 +1,223 @@
+import React, { useState } from 'react';
+import { Theme } from '../types';
+import { Language, UiStrings, getMarket } from '../services/i18n';
+import { ShortlistItem } from '../services/shortlist';
+import { RecipientProfile } from '../services/profiles';
+import { RetailerDefinition, buildRetailerUrl } from '../services/retailers';
+import { formatPriceTier } from '../services/recommendations';
+import { formatMoney } from '../services/budget';
+import { CloseIcon } from './icons';
+import { useDialog } from './dialog';
+
+interface ShortlistPanelProps {
+  theme: Theme;
+  t: UiStrings;
+  language: Language;
+  items: ShortlistItem[];
+  profiles: RecipientProfile[];
+  // Stores to link to for a market, in the user's order
+  getRetailers: (market: string) => RetailerDefinition[];
+  onRemove: (id: string) => void;
+  onMarkBought: (id: string, profileId: string) => void;
+  onClose: () => void;
+}
+
+// Shortlisted items side by side, one column per item, filterable by recipient.
+export const ShortlistPanel = ({ theme, t, language, items, profiles, getRetailers, onRemove, onMarkBought, onClose }: ShortlistPanelProps) => {
+  const dialog = useDialog(onClose);
+  const [recipient, setRecipient] = useState<string | null>(null);
+  // Profile picked per item for "mark as bought"; defaults to the one it was suggested for
+  const [buyers, setBuyers] = useState<Record<string, string>>({});
+
+  const recipients = Array.from(new Set(items.map(item => item.recipient).filter(Boolean)));
+  const shown = recipient === null ? items : items.filter(item => item.recipient === recipient);
+  const profileName = (id: string | undefined) => profiles.find(p => p.id === id)?.name ?? '';
+
+  const selectStyle: React.CSSProperties = {
+    backgroundColor: theme.secondary,
+    color: theme.text,
+    border: 'none',
+    borderRadius: '10px',
+    padding: '0.4rem 0.6rem',
+    fontSize: '0.85rem',
+    maxWidth: '100%'
+  };
+
+  const rowLabelStyle: React.CSSProperties = {
+    fontSize: '0.75rem',
+    textTransform: 'uppercase',
+    letterSpacing: '1px',
+    opacity: 0.6,
+    textAlign: 'left',
+    fontWeight: 600,
+    padding: '0.6rem 0.75rem 0.6rem 0',
+    verticalAlign: 'top',
+    whiteSpace: 'nowrap'
+  };
+
+  const cellStyle: React.CSSProperties = {
+    padding: '0.6rem 0.75rem',
+    verticalAlign: 'top',
+    minWidth: '180px',
+    fontSize: '0.9rem',
+    lineHeight: 1.4
+  };
+
+  const row = (label: string, render: (item: ShortlistItem) => React.ReactNode) => (
+    <tr style={{ borderTop: `1px solid ${theme.secondary}` }}>
+      <th scope="row" style={rowLabelStyle}>{label}</th>
+      {shown.map(item => <td key={item.id} style={cellStyle}>{render(item)}</td>)}
+    </tr>
+  );
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label={t.shortlistTitle}
+      onClick={onClose}
+      style={{
+        position: 'fixed',
+        inset: 0,
+        backgroundColor: 'rgba(0,0,0,0.4)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 50,
+        padding: '1rem'
+      }}
+    >
+      <div
+        onClick={(e) => e.stopPropagation()}
+        {...dialog}
+        style={{
+          outline: 'none',
+          backgroundColor: theme.bg,
+          color: theme.text,
+          borderRadius: '24px',
+          padding: '2rem',
+          width: '100%',
+          maxWidth: '960px',
+          maxHeight: '90vh',
+          overflow: 'auto',
+          boxShadow: '0 24px 48px rgba(0,0,0,0.25)'
+        }}
+      >
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1.5rem', gap: '1rem' }}>
+          <h2 style={{ margin: 0, fontSize: '1.5rem', fontWeight: 700 }}>{t.shortlistTitle}</h2>
+          <button
+            onClick={onClose}
+            aria-label={t.closeShortlist}
+            style={{ background: 'transparent', border: 'none', color: theme.text, cursor: 'pointer', padding: '6px', display: 'flex', alignItems: 'center' }}
+          >
+            <CloseIcon />
+          </button>
+        </div>
+
+        {recipients.length > 1 && (
+          <label style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', marginBottom: '1.25rem', fontWeight: 500 }}>
+            {t.compareRecipient}
+            <select value={recipient ?? ''} onChange={(e) => setRecipient(e.target.value || null)} style={selectStyle}>
+              <option value="">{t.shortlistEveryone}</option>
+              {recipients.map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+          </label>
+        )}
+
+        {shown.length === 0 ? (
+          <p style={{ opacity: 0.7, margin: 0 }}>{t.shortlistEmpty}</p>
+        ) : (
+          <table style={{ borderCollapse: 'collapse', width: '100%' }}>
+            <thead>
+              <tr>
+                <td></td>
+                {shown.map(item => (
+                  <th key={item.id} scope="col" style={{ ...cellStyle, textAlign: 'left', fontSize: '1.05rem' }}>
+                    {item.recommendation.name}
+                    <div style={{ fontSize: '0.8rem', fontWeight: 400, opacity: 0.6 }}>{item.recommendation.englishName}</div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {row(t.compareRecipient, item => item.recipient)}
+              {row(t.compareRationale, item => item.recommendation.rationale)}
+              {row(t.compareCategory, item => t.categories[item.recommendation.category])}
+              {row(t.comparePrice, item => item.recommendation.estimatedPrice
+                ? `~${formatMoney(item.recommendation.estimatedPrice, language)}`
+                : formatPriceTier(item.recommendation.priceTier, getMarket(item.market).currencySymbol))}
+              {row(t.compareStores, item => (
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px' }}>
+                  {getRetailers(item.market).map(retailer => (
+                    <a
+                      key={retailer.id}
+                      href={buildRetailerUrl(retailer, item.recommendation.name)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      style={{
+                        color: theme.text,
+                        border: `1px solid ${theme.primary}`,
+                        borderRadius: '50px',
+                        padding: '3px 10px',
+                        fontSize: '0.8rem',
+                        textDecoration: 'none',
+                        whiteSpace: 'nowrap'
+                      }}
+                    >
+                      {retailer.name}
+                    </a>
+                  ))}
+                </div>
+              ))}
+              {row(t.compareStatus, item => {
+                if (item.boughtAt) {
+                  return <span style={{ fontWeight: 600 }}>{t.boughtFor(profileName(item.boughtFor) || item.recipient)}</span>;
+                }
+                if (profiles.length === 0) {
+                  return <span style={{ opacity: 0.7 }}>{t.boughtNeedsProfile}</span>;
+                }
+                const buyer = buyers[item.id] ?? (profiles.some(p => p.id === item.profileId) ? item.profileId : profiles[0].id);
+                return (
+                  <div style={{ display: 'flex', flexDirection: 'column', gap: '0.4rem', alignItems: 'flex-start' }}>
+                    <select
+                      value={buyer}
+                      aria-label={t.boughtForLabel}
+                      onChange={(e) => setBuyers(prev => ({ ...prev, [item.id]: e.target.value }))}
+                      style={selectStyle}
+                    >
+                      {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                    </select>
+                    <button
+                      onClick={() => onMarkBought(item.id, buyer)}
+                      style={{
+                        backgroundColor: theme.primary,
+                        color: theme.bg,
+                        border: 'none',
+                        borderRadius: '50px',
+                        padding: '0.4rem 1rem',
+                        fontSize: '0.85rem',
+                        fontWeight: 600,
+                        cursor: 'pointer'
+                      }}
+                    >
+                      {t.markBought}
+                    </button>
+                  </div>
+                );
+              })}
+              {row('', item => (
+                <button
+                  onClick={() => onRemove(item.id)}
+                  aria-label={t.shortlistRemove(item.recommendation.name)}
+                  style={{ background: 'transparent', border: 'none', color: theme.text, opacity: 0.6, cursor: 'pointer', padding: 0, fontSize: '0.85rem', fontWeight: 600 }}
+                >
+                  × {t.shortlistRemoveLabel}
+                </button>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { Theme } from '../types';
+import { UiStrings } from '../services/i18n';
+import { THEME_SLOTS, WCAG_AA, checkContrast } from '../services/themes';
+
+interface ThemeEditorProps {
+  // The theme the settings panel is drawn with
+  theme: Theme;
+  t: UiStrings;
+  initial: Theme;
+  onSave: (custom: Theme) => void;
+  onCancel: () => void;
+}
+
+// Five colour pickers with a live preview and contrast ratios; saving needs every pair at AA.
+export const ThemeEditor = ({ theme, t, initial, onSave, onCancel }: ThemeEditorProps) => {
+  const [draft, setDraft] = useState<Theme>({
+    bg: initial.bg,
+    text: initial.text,
+    primary: initial.primary,
+    secondary: initial.secondary,
+    accent: initial.accent
+  });
+  const checks = checkContrast(draft);
+  const passes = checks.every(check => check.passes);
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(110px, 1fr))', gap: '0.5rem' }}>
+        {THEME_SLOTS.map(slot => (
+          <label key={slot} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.9rem', fontWeight: 500 }}>
+            <input
+              type="color"
+              value={draft[slot]}
+              onChange={(e) => setDraft(prev => ({ ...prev, [slot]: e.target.value }))}
+              style={{ width: '32px', height: '32px', padding: 0, border: 'none', background: 'transparent', cursor: 'pointer' }}
+            />
+            {t.themeSlots[slot]}
+          </label>
+        ))}
+      </div>
+
+      <div aria-hidden="true" style={{ backgroundColor: draft.bg, color: draft.text, borderRadius: '16px', padding: '1rem', display: 'flex', flexDirection: 'column', gap: '0.6rem' }}>
+        <span style={{ fontWeight: 700 }}>gifty<span style={{ color: draft.accent }}>.</span></span>
+        <span style={{ backgroundColor: draft.secondary, borderRadius: '12px', padding: '0.5rem 0.75rem', fontSize: '0.9rem' }}>{t.resultsTitle}</span>
+        <span style={{ alignSelf: 'flex-start', backgroundColor: draft.primary, color: draft.bg, borderRadius: '50px', padding: '0.4rem 1rem', fontSize: '0.9rem', fontWeight: 700 }}>
+          {t.start}
+        </span>
+      </div>
+
+      <ul aria-live="polite" style={{ listStyle: 'none', padding: 0, margin: 0, display: 'flex', flexDirection: 'column', gap: '0.35rem', fontSize: '0.9rem' }}>
+        {checks.map(check => (
+          <li key={check.id} style={{ display: 'flex', justifyContent: 'space-between', gap: '1rem' }}>
+            <span>{t.contrastChecks[check.id]}</span>
+            <span style={{ fontWeight: 600, opacity: check.passes ? 0.8 : 1 }}>
+              {check.ratio.toFixed(2)}:1 {check.passes ? '✓' : `✗ ${t.contrastBelowAA}`}
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      {!passes && (
+        <p role="alert" style={{ margin: 0, fontSize: '0.9rem', fontWeight: 600 }}>
+          {t.contrastTooLow(WCAG_AA)}
+        </p>
+      )}
+
+      <div style={{ display: 'flex', gap: '0.75rem', justifyContent: 'flex-end' }}>
+        <button
+          onClick={onCancel}
+          style={{ background: 'transparent', border: 'none', color: theme.text, opacity: 0.7, padding: '0.6rem 1rem', fontSize: '0.95rem', fontWeight: 600, cursor: 'pointer' }}
+        >
+          {t.cancel}
+        </button>
+        <button
+          onClick={() => onSave(draft)}
+          disabled={!passes}
+          style={{
+            backgroundColor: theme.primary,
+            color: theme.bg,
+            border: 'none',
+            borderRadius: '50px',
+            padding: '0.6rem 1.5rem',
+            fontSize: '0.95rem',
+            fontWeight: 700,
+            cursor: passes ? 'pointer' : 'not-allowed',
+            opacity: passes ? 1 : 0.5
+          }}
+        >
+          {t.themeSave}
+        </button>
+      </div>
+    </div>
+  );
+};
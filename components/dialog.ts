@@ -0,0 +1,30 @@
+import React, { useEffect, useRef } from 'react';
+
+// --- Modal Dialogs ---
+
+// Focus handling shared by the overlays: focus moves into the panel on open, Escape
+// closes the dialog and focus goes back to whatever opened it. Spread the result on the
+// panel; it is focusable itself so there is always somewhere for focus to land.
+export const useDialog = (onClose: () => void) => {
+  const panelRef = useRef<HTMLElement>(null);
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  useEffect(() => {
+    const opener = document.activeElement as HTMLElement | null;
+    panelRef.current?.focus();
+    return () => {
+      if (opener?.isConnected) opener.focus();
+    };
+  }, []);
+
+  return {
+    ref: panelRef,
+    tabIndex: -1,
+    onKeyDown: (e: React.KeyboardEvent<HTMLElement>) => {
+      if (e.key !== 'Escape') return;
+      e.stopPropagation();
+      onCloseRef.current();
+    }
+  };
+};
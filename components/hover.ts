@@ -0,0 +1,30 @@
+import React from 'react';
+import gsap from 'gsap';
+
+// --- Hover Effects ---
+
+// Event handlers that run a hover effect for the pointer and for keyboard focus alike.
+// Focus moving between children of the element counts as staying on it, so a popover
+// inside it stays open while it is tabbed through.
+export const hoverEffect = (enter: (el: HTMLElement) => void, leave: (el: HTMLElement) => void) => ({
+  onMouseEnter: (e: React.MouseEvent<HTMLElement>) => enter(e.currentTarget),
+  onMouseLeave: (e: React.MouseEvent<HTMLElement>) => leave(e.currentTarget),
+  onFocus: (e: React.FocusEvent<HTMLElement>) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) enter(e.currentTarget);
+  },
+  onBlur: (e: React.FocusEvent<HTMLElement>) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) leave(e.currentTarget);
+  }
+});
+
+// The grow-a-little effect most buttons share.
+export const hoverScale = (scale = 1.05) => hoverEffect(
+  el => gsap.to(el, { scale, duration: 0.1 }),
+  el => gsap.to(el, { scale: 1, duration: 0.1 })
+);
+
+// Brightens icon buttons that sit at reduced opacity.
+export const hoverOpacity = hoverEffect(
+  el => el.style.opacity = '1',
+  el => el.style.opacity = '0.6'
+);
@@ -1,172 +1,359 @@
 import React, { useState, useEffect, useRef, useLayoutEffect } from 'react';
 import { createRoot } from 'react-dom/client';
-import { GoogleGenAI, Type } from "@google/genai";
 import gsap from 'gsap';
+import { AppState, Budget, HistoryItem, Recommendation, StepResponse } from './types';
+import { createProviderFromEnv, ModelProvider, ModelRequest, ModelResponse } from './services/providers';
+import {
+  SavedSession,
+  createSessionId,
+  loadSessions,
+  saveSession,
+  deleteSession,
+  findResumableSession,
+  findCompletedSessions,
+  describeSession
+} from './services/sessions';
+import { formatPriceTier, groupByCategory, mergeRecommendations } from './services/recommendations';
+import { Refinement, SHOW_MORE_COUNT, getKeptRecommendations, getRefinementCount } from './services/refine';
+import { UI_STRINGS, LocaleSettings, getMarket, loadLocaleSettings, saveLocaleSettings } from './services/i18n';
+import {
+  RetailerPreferences,
+  buildRetailerUrl,
+  getEnabledRetailers,
+  orderRetailers,
+  loadRetailerPreferences,
+  saveRetailerPreferences
+} from './services/retailers';
+import {
+  RefreshIcon,
+  InfoIcon,
+  SettingsIcon,
+  ArrowLeftIcon,
+  ArrowRightIcon,
+  AlertTriangleIcon,
+  ShareIcon,
+  ExternalLinkIcon,
+  StarIcon
+} from './components/icons';
+import { SettingsPanel } from './components/SettingsPanel';
+import { ProfileEditor } from './components/ProfileEditor';
+import { ShortlistPanel } from './components/ShortlistPanel';
+import { ExportMenu } from './components/ExportMenu';
+import { BatchSetup } from './components/BatchSetup';
+import { BatchBoard } from './components/BatchBoard';
+import { BudgetForm } from './components/BudgetForm';
+import { OccasionForm } from './components/OccasionForm';
+import { hoverEffect, hoverOpacity, hoverScale } from './components/hover';
+import { Answer, createUserTurn, isEmptyAnswer } from './services/answers';
+import { formatBudget, formatMoney } from './services/budget';
+import {
+  SessionOccasion,
+  NO_OCCASION,
+  buildOccasionHistory,
+  daysUntil,
+  getOccasionKind,
+  isUrgent,
+  resolveOccasion
+} from './services/occasion';
+import {
+  InterviewMode,
+  INTERVIEW_MODES,
+  INTERVIEW_SCRIPTS,
+  QUESTION_BANK,
+  DEFAULT_MODE,
+  getScriptedStep,
+  getEarliestFinalPosition
+} from './services/interview';
+import { ValidationContext, InvalidResponseError, validateStepResponse, buildRepairPrompt } from './services/validation';
+import { StepContext, StepIntent, STEP_RESPONSE_SCHEMA, buildSystemInstruction, buildStepPrompt } from './services/prompt';
+import { StepPreview, readStepPreview } from './services/streaming';
+import { buildCacheKey, createResponseCache } from './services/responseCache';
+import { ClassifiedError, ErrorKind, classifyError, getRetryDelay, isRetryable } from './services/errors';
+import { abortable, createAbortError, wait, withTimeout } from './services/cancellation';
+import { getOfflineStep } from './services/offline';
+import {
+  RecipientProfile,
+  createProfileId,
+  loadProfiles,
+  saveProfile,
+  deleteProfile,
+  addPastGift,
+  buildProfileFromHistory,
+  buildProfileHistory
+} from './services/profiles';
+import {
+  ShortlistItem,
+  ShortlistOwner,
+  loadShortlist,
+  saveShortlist,
+  isShortlisted,
+  toggleShortlistItem,
+  removeShortlistItem,
+  markShortlistItemBought
+} from './services/shortlist';
+import {
+  BATCH_MODE,
+  BatchMember,
+  BatchSession,
+  loadBatches,
+  saveBatch,
+  deleteBatch,
+  getSharedOccasion,
+  getTakenGifts
+} from './services/batch';
+import { SharedResult, buildShareUrl, readSharedResult, summarizeAnswers, clearShareHash } from './services/share';
+import {
+  ExportDocument,
+  buildMarkdown,
+  buildCsv,
+  buildPrintHtml,
+  buildIcs,
+  downloadFile,
+  printHtml
+} from './services/export';
+import {
+  ThemePreferences,
+  loadThemePreferences,
+  saveThemePreferences,
+  randomThemeIndex,
+  resolveTheme
+} from './services/themes';
 
 // --- Configuration & Constants ---
 
-// 15 Curated Themes: Optimized for eye comfort (WCAG AA/AAA contrast) and aesthetic appeal.
-const THEMES = [
-  // 1. Classic Clean (High Contrast)
-  { bg: "#ffffff", text: "#0f172a", primary: "#2563eb", secondary: "#f1f5f9", accent: "#3b82f6" },
-  // 2. Soft Charcoal (Dark Mode Friendly)
-  { bg: "#18181b", text: "#e4e4e7", primary: "#a1a1aa", secondary: "#27272a", accent: "#d4d4d8" },
-  // 3. Warm Sepia (Reading Mode)
-  { bg: "#fdf6e3", text: "#433422", primary: "#b58900", secondary: "#eee8d5", accent: "#cb4b16" },
-  // 4. Midnight Navy (Deep Blue)
-  { bg: "#0f172a", text: "#e2e8f0", primary: "#38bdf8", secondary: "#1e293b", accent: "#7dd3fc" },
-  // 5. Mint Sage (Calm Nature)
-  { bg: "#ecfdf5", text: "#064e3b", primary: "#10b981", secondary: "#d1fae5", accent: "#34d399" },
-  // 6. Royal Amethyst (Rich Purple)
-  { bg: "#2e1065", text: "#f3e8ff", primary: "#c084fc", secondary: "#4c1d95", accent: "#d8b4fe" },
-  // 7. Airy Sky (Light Blue)
-  { bg: "#f0f9ff", text: "#0c4a6e", primary: "#0ea5e9", secondary: "#e0f2fe", accent: "#38bdf8" },
-  // 8. Deep Forest (Dark Green)
-  { bg: "#022c22", text: "#ecfdf5", primary: "#2dd4bf", secondary: "#115e59", accent: "#5eead4" },
-  // 9. Gentle Rose (Soft Pink)
-  { bg: "#fff1f2", text: "#881337", primary: "#f43f5e", secondary: "#ffe4e6", accent: "#fb7185" },
-  // 10. Slate Grey (Neutral Dark)
-  { bg: "#27272a", text: "#fafafa", primary: "#71717a", secondary: "#3f3f46", accent: "#a1a1aa" },
-  // 11. Sunset Earth (Warm Orange)
-  { bg: "#fff7ed", text: "#7c2d12", primary: "#ea580c", secondary: "#ffedd5", accent: "#fb923c" },
-  // 12. Ocean Depth (Blue Contrast)
-  { bg: "#172554", text: "#dbeafe", primary: "#60a5fa", secondary: "#1e3a8a", accent: "#93c5fd" },
-  // 13. Lavender Haze (Soft Purple)
-  { bg: "#faf5ff", text: "#581c87", primary: "#a855f7", secondary: "#f3e8ff", accent: "#c084fc" },
-  // 14. Olive Garden (Earthy Green)
-  { bg: "#f7fee7", text: "#365314", primary: "#65a30d", secondary: "#ecfccb", accent: "#84cc16" },
-  // 15. True OLED (Maximum Black)
-  { bg: "#000000", text: "#e5e5e5", primary: "#bb86fc", secondary: "#1f1f1f", accent: "#03dac6" }
-];
-
-const RETAILERS = [
-  { name: 'Trendyol', url: (q: string) => `https://www.trendyol.com/sr?q=${encodeURIComponent(q)}` },
-  { name: 'Hepsiburada', url: (q: string) => `https://www.hepsiburada.com/ara?q=${encodeURIComponent(q)}` },
-  { name: 'Çiçeksepeti', url: (q: string) => `https://www.ciceksepeti.com/arama?query=${encodeURIComponent(q)}` },
-  { name: 'Amazon TR', url: (q: string) => `https://www.amazon.com.tr/s?k=${encodeURIComponent(q)}` }
-];
-
-// --- Gemini Setup ---
-
-const ai = new GoogleGenAI({ apiKey: import.meta.env.VITE_GEMINI_API_KEY });
-const MODEL_NAME = 'gemini-2.5-flash';
-
-// --- Types ---
-
-type AppState = 'intro' | 'loading' | 'question' | 'results' | 'error';
-
-interface HistoryItem {
-  role: 'model' | 'user';
-  text: string;
-}
+// Calendar reminders alert this long before the occasion
+const REMINDER_ALERT_DAYS = 7;
 
-interface StepResponse {
-  question: string;
-  options: string[];
-  isFinal: boolean;
-  recommendations: string[];
-}
+// Turns off the endless wiggle and rainbow loops
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+// Picks the dark theme when the theme follows the system
+const DARK_SCHEME_QUERY = '(prefers-color-scheme: dark)';
 
-// --- Helper Functions ---
+// --- Model Setup ---
+
+// Selected via VITE_MODEL_PROVIDER: 'gemini' (default), 'openai', 'mock' or 'proxy'.
+const provider = createProviderFromEnv();
+
+// Model steps shared across sessions; the opening questions are usually identical.
+const responseCache = createResponseCache();
+
+// Corrective re-asks after the first reply fails validation
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// Per model call, retries excluded; override with VITE_REQUEST_TIMEOUT_MS
+const REQUEST_TIMEOUT_MS = Number(import.meta.env.VITE_REQUEST_TIMEOUT_MS) || 30000;
 
-const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+// Failures the user may get past by rephrasing what they said
+const ANSWER_RELATED_ERRORS: ErrorKind[] = ['safety', 'malformed', 'timeout'];
+
+// Failures that won't go away by retrying soon; the session carries on with the offline engine
+const OFFLINE_FALLBACK_ERRORS: ErrorKind[] = ['invalidKey', 'quota', 'offline'];
+
+// Countdown on the error screen when a rate limit comes without a Retry-After hint
+const DEFAULT_RATE_LIMIT_WAIT_MS = 10000;
+
+// --- Helper Functions ---
 
 async function generateContentWithRetry(
-  modelName: string,
-  prompt: string,
-  config: any,
+  modelProvider: ModelProvider,
+  request: ModelRequest,
   retries = 3,
-  backoff = 1000
-): Promise<any> {
+  attempt = 0
+): Promise<ModelResponse> {
+  const { signal, dispose } = withTimeout(request.signal, REQUEST_TIMEOUT_MS);
+  let delay: number;
   try {
-    const response = await ai.models.generateContent({
-      model: modelName,
-      contents: prompt,
-      config: config
-    });
-    return response;
+    return await abortable(modelProvider.generateContent({ ...request, signal }), signal);
   } catch (error: any) {
-    // Retry on 429 (Too Many Requests) or 503 (Service Unavailable)
-    if (retries > 0 && (error?.status === 429 || error?.code === 429 || error?.status === 503)) {
-      console.warn(`API Error ${error.status || error.code}. Retrying in ${backoff}ms...`);
-      await wait(backoff);
-      return generateContentWithRetry(modelName, prompt, config, retries - 1, backoff * 2);
-    }
-    throw error;
+    // Cancelled or timed out: surface the reason and never retry
+    if (signal.aborted) throw signal.reason;
+    // Only transient overload (429 / 503 with a short or no Retry-After) is retried here
+    const failure = classifyError(error);
+    if (retries <= 0 || !isRetryable(failure)) throw error;
+    delay = getRetryDelay(failure, attempt);
+    console.warn(`API Error ${error.status || error.code}. Retrying in ${delay}ms...`);
+  } finally {
+    dispose();
   }
+  await wait(delay, request.signal);
+  return generateContentWithRetry(modelProvider, request, retries - 1, attempt + 1);
 }
 
-// --- Icons ---
-const RefreshIcon = () => (
-  <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-    <path d="M23 4v6h-6"></path>
-    <path d="M1 20v-6h6"></path>
-    <path d="M3.51 9a9 9 0 0 1 14.85-3.36L23 10M1 14l4.64 4.36A9 9 0 0 0 20.49 15"></path>
-  </svg>
-);
-
-const InfoIcon = () => (
-  <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-    <circle cx="12" cy="12" r="10"></circle>
-    <line x1="12" y1="16" x2="12" y2="12"></line>
-    <line x1="12" y1="8" x2="12.01" y2="8"></line>
-  </svg>
-);
-
-const ArrowRightIcon = () => (
-  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
-    <line x1="5" y1="12" x2="19" y2="12"></line>
-    <polyline points="12 5 19 12 12 19"></polyline>
-  </svg>
-);
-
-const AlertTriangleIcon = () => (
-  <svg width="48" height="48" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-    <path d="M10.29 3.86L1.82 18a2 2 0 0 0 1.71 3h16.94a2 2 0 0 0 1.71-3L13.71 3.86a2 2 0 0 0-3.42 0z"></path>
-    <line x1="12" y1="9" x2="12" y2="13"></line>
-    <line x1="12" y1="17" x2="12.01" y2="17"></line>
-  </svg>
-);
-
-const ExternalLinkIcon = () => (
-  <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round" style={{ marginLeft: '6px', opacity: 0.6 }}>
-    <path d="M18 13v6a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V8a2 2 0 0 1 2-2h6"></path>
-    <polyline points="15 3 21 3 21 9"></polyline>
-    <line x1="10" y1="14" x2="21" y2="3"></line>
-  </svg>
-);
-
 // --- Components ---
 
+// Opening a share link renders its results directly, read-only, without calling the model.
+const initialShare = readSharedResult();
+
 const App = () => {
-  const [appState, setAppState] = useState<AppState>('intro');
+  const [sharedView, setSharedView] = useState<SharedResult | null>(initialShare);
+  const [appState, setAppState] = useState<AppState>(initialShare ? 'results' : 'intro');
   const [history, setHistory] = useState<HistoryItem[]>([]);
-  const [data, setData] = useState<StepResponse | null>(null);
+  const [data, setData] = useState<StepResponse | null>(
+    initialShare ? { question: '', options: [], isFinal: true, recommendations: initialShare.recommendations } : null
+  );
+  // The response shown at each question index; `data` is always the last one.
+  // An entry is null when `applyStep` back-fills an index the history reached without a
+  // step being recorded for it.
+  const [steps, setSteps] = useState<(StepResponse | null)[]>([]);
+  // The step being streamed in while appState is 'loading'
+  const [streamPreview, setStreamPreview] = useState<StepPreview | null>(null);
   const [themeIndex, setThemeIndex] = useState(0);
   const [customInput, setCustomInput] = useState("");
-  const [errorMsg, setErrorMsg] = useState("");
+  const [multiSelect, setMultiSelect] = useState(false);
+  const [selectedOptions, setSelectedOptions] = useState<string[]>([]);
+  const [appError, setAppError] = useState<ClassifiedError | null>(null);
+  // Seconds until the error screen allows another attempt
+  const [retryCountdown, setRetryCountdown] = useState(0);
   const [lastAction, setLastAction] = useState<() => void>(() => { });
   const [showInfo, setShowInfo] = useState(false);
-
+  const [reducedMotion, setReducedMotion] = useState(() => window.matchMedia(REDUCED_MOTION_QUERY).matches);
+  const [themePrefs, setThemePrefs] = useState<ThemePreferences>(() => loadThemePreferences());
+  const [systemDark, setSystemDark] = useState(() => window.matchMedia(DARK_SCHEME_QUERY).matches);
+  const [locale, setLocale] = useState<LocaleSettings>(() => loadLocaleSettings());
+  // Market of the results on screen; differs from the settings when reopening old or shared results.
+  const [sessionMarket, setSessionMarket] = useState<string | null>(initialShare?.market ?? null);
+  const [mode, setMode] = useState<InterviewMode>(DEFAULT_MODE);
+  // The current session runs on the bundled offline engine; `preferOffline` is the intro toggle
+  const [offlineMode, setOfflineMode] = useState(false);
+  const [preferOffline, setPreferOffline] = useState(false);
+  // Set when the network dropped mid-session; the session goes back to the model once it returns
+  const [awaitingConnection, setAwaitingConnection] = useState(false);
+  const [budget, setBudget] = useState<Budget | null>(null);
+  const [editingBudget, setEditingBudget] = useState(false);
+  // What the gift is for and when it is needed, when given up front
+  const [sessionOccasion, setSessionOccasion] = useState<SessionOccasion>(NO_OCCASION);
+  const [retailerPrefs, setRetailerPrefs] = useState<RetailerPreferences>(() => loadRetailerPreferences());
+  const [showSettings, setShowSettings] = useState(false);
+  const [openRationale, setOpenRationale] = useState<number | null>(null);
+  const [shareAnswers, setShareAnswers] = useState(false);
+  const [shareStatus, setShareStatus] = useState<'idle' | 'copied' | 'failed'>('idle');
+  const [savedSessions, setSavedSessions] = useState<SavedSession[]>(() => loadSessions());
+  const [profiles, setProfiles] = useState<RecipientProfile[]>(() => loadProfiles());
+  // The recipient this session is for, if it was started from (or saved as) a profile
+  const [activeProfile, setActiveProfile] = useState<RecipientProfile | null>(null);
+  const [editingProfile, setEditingProfile] = useState<RecipientProfile | null>(null);
+  const [shortlist, setShortlist] = useState<ShortlistItem[]>(() => loadShortlist());
+  const [showShortlist, setShowShortlist] = useState(false);
+  const [batches, setBatches] = useState<BatchSession[]>(() => loadBatches());
+  // The group this session belongs to; on the 'batch' screen, null means the setup form
+  const [activeBatch, setActiveBatch] = useState<BatchSession | null>(null);
+
+  const sessionIdRef = useRef<string | null>(null);
+  // Every step fetched this session, keyed by the history that led to it, so abandoned branches can be replayed.
+  const branchCacheRef = useRef(new Map<string, StepResponse>());
+  // The in-flight model call. Anything that moves the interview on aborts it, and a
+  // response whose controller is no longer current is discarded.
+  const requestRef = useRef<AbortController | null>(null);
+
+  const t = UI_STRINGS[locale.uiLanguage];
+  const theme = resolveTheme(themePrefs, themeIndex, systemDark);
+  const activeMarket = getMarket(sessionMarket ?? locale.market);
   const containerRef = useRef<HTMLDivElement>(null);
   const contentRef = useRef<HTMLDivElement>(null);
   const bgRef = useRef<HTMLDivElement>(null);
   const rainbowTrackRef = useRef<HTMLDivElement>(null);
+  // Heading of the question or results on screen; focused when it changes
+  const headingRef = useRef<HTMLHeadingElement>(null);
 
   // --- Effects ---
 
-  // Randomize theme on data change
+  // Randomize theme on data change, unless the user picked a fixed one
   useEffect(() => {
-    if (appState === 'question' || appState === 'results') {
-      const nextTheme = Math.floor(Math.random() * THEMES.length);
-      setThemeIndex(nextTheme);
+    if (themePrefs.mode === 'random' && (appState === 'question' || appState === 'results')) {
+      setThemeIndex(randomThemeIndex());
     }
   }, [data, appState]);
 
+  useEffect(() => {
+    document.documentElement.lang = locale.uiLanguage;
+  }, [locale.uiLanguage]);
+
+  // Chips belong to the question they were picked on
+  useEffect(() => {
+    setSelectedOptions([]);
+  }, [data]);
+
+  // Refresh the saved sessions and profiles whenever we land back on the intro screen or the batch board
+  useEffect(() => {
+    if (appState === 'intro' || appState === 'batch') {
+      setSavedSessions(loadSessions());
+      setProfiles(loadProfiles());
+      setBatches(loadBatches());
+    }
+  }, [appState]);
+
+  // Browser back/forward walks through the interview steps instead of leaving the app
+  useEffect(() => {
+    const onPopState = (e: PopStateEvent) => {
+      const target = e.state?.giftyStep;
+      if (typeof target !== 'number') {
+        if (appState !== 'intro') handleReset();
+        return;
+      }
+      if (target < steps.length - 1) {
+        handleGoBack(target);
+      }
+    };
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  });
+
+  // Follows the system motion and colour scheme settings while the app is open
+  useEffect(() => {
+    const motionQuery = window.matchMedia(REDUCED_MOTION_QUERY);
+    const schemeQuery = window.matchMedia(DARK_SCHEME_QUERY);
+    const onMotionChange = () => setReducedMotion(motionQuery.matches);
+    const onSchemeChange = () => setSystemDark(schemeQuery.matches);
+    motionQuery.addEventListener('change', onMotionChange);
+    schemeQuery.addEventListener('change', onSchemeChange);
+    return () => {
+      motionQuery.removeEventListener('change', onMotionChange);
+      schemeQuery.removeEventListener('change', onSchemeChange);
+    };
+  }, []);
+
+  // Keyboard and screen reader users land on the new question or results heading
+  useEffect(() => {
+    if (appState === 'question' || appState === 'results') {
+      headingRef.current?.focus();
+    }
+  }, [appState, data]);
+
+  // Number keys pick the options of the question on screen, unless the user is typing
+  useEffect(() => {
+    if (appState !== 'question' || !data || showSettings || showShortlist || editingProfile) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || !/^[1-9]$/.test(e.key)) return;
+      if ((e.target as HTMLElement).closest?.('input[type="text"], textarea, select')) return;
+      const option = data.options[Number(e.key) - 1];
+      if (!option) return;
+      e.preventDefault();
+      handleOptionClick(option);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  // Ticks the error screen's retry countdown down to zero
+  useEffect(() => {
+    if (retryCountdown <= 0) return;
+    const timer = setTimeout(() => setRetryCountdown(c => c - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [retryCountdown]);
+
+  // A session that went offline because the network dropped retries the model once it's back
+  useEffect(() => {
+    if (!awaitingConnection) return;
+    const onOnline = () => {
+      setAwaitingConnection(false);
+      setOfflineMode(false);
+    };
+    window.addEventListener('online', onOnline);
+    return () => window.removeEventListener('online', onOnline);
+  }, [awaitingConnection]);
+
   // GSAP Animations
   useLayoutEffect(() => {
-    const theme = THEMES[themeIndex];
-
     // Animate Background
     if (bgRef.current) {
       gsap.to(bgRef.current, {
@@ -185,9 +372,10 @@ const App = () => {
       });
     }
 
-    // Staggered Entry for Content
+    // Staggered Entry for Content (streamed cards already made their entrance)
     if (contentRef.current) {
-      const staggerItems = contentRef.current.querySelectorAll('.stagger-in');
+      const staggerItems = contentRef.current.querySelectorAll('.stagger-in:not([data-streamed])');
+      contentRef.current.querySelectorAll('[data-streamed]').forEach(el => el.removeAttribute('data-streamed'));
       if (staggerItems.length > 0) {
         gsap.fromTo(staggerItems,
           { y: 20, opacity: 0 },
@@ -197,7 +385,11 @@ const App = () => {
     }
 
     // Wiggly Bubble Animation for Results
-    if (appState === 'results') {
+    if (appState === 'results' && reducedMotion) {
+      const bubbles = document.querySelectorAll('.wiggle-bubble');
+      gsap.killTweensOf(bubbles);
+      gsap.set(bubbles, { rotation: 0, x: 0, y: 0 });
+    } else if (appState === 'results') {
       const bubbles = document.querySelectorAll('.wiggle-bubble');
       bubbles.forEach((bubble) => {
         gsap.to(bubble, {
@@ -219,139 +411,722 @@ const App = () => {
       gsap.killTweensOf(rainbowTrackRef.current);
 
       // Move from 0% to -50% (exactly one period of the duplicated gradient)
-      gsap.to(rainbowTrackRef.current, {
-        xPercent: -50,
-        duration: 20, // Very slow
-        ease: "none",
-        repeat: -1
-      });
+      if (!reducedMotion) {
+        gsap.to(rainbowTrackRef.current, {
+          xPercent: -50,
+          duration: 20, // Very slow
+          ease: "none",
+          repeat: -1
+        });
+      }
     }
 
-  }, [themeIndex, appState, data, errorMsg]);
+  }, [theme.bg, theme.text, appState, data, appError, reducedMotion]);
+
+  // Streamed heading and cards animate in as each one arrives
+  useLayoutEffect(() => {
+    if (!streamPreview || !contentRef.current) return;
+    const arrived = contentRef.current.querySelectorAll('.stagger-in:not([data-streamed])');
+    if (arrived.length > 0) {
+      arrived.forEach(el => el.setAttribute('data-streamed', 'true'));
+      gsap.fromTo(arrived,
+        { y: 20, opacity: 0 },
+        { y: 0, opacity: 1, duration: 0.6, stagger: 0.08, ease: "power3.out", clearProps: "transform" }
+      );
+    }
+  }, [streamPreview]);
 
   // --- Logic ---
 
-  const handleStart = async () => {
+  const cancelPendingRequest = () => {
+    requestRef.current?.abort(createAbortError());
+    requestRef.current = null;
+  };
+
+  // A profile pre-answers what it knows, and a batch its shared questions, so the
+  // interview picks up after those questions. A batch has its occasion already; everyone
+  // else is asked for it first.
+  const handleStart = async (
+    profile: RecipientProfile | null = null,
+    batchMember: { batch: BatchSession; member: BatchMember } | null = null
+  ) => {
+    cancelPendingRequest();
+    sessionIdRef.current = batchMember?.member.sessionId ?? createSessionId();
+    branchCacheRef.current.clear();
+    setSessionMarket(locale.market);
+    setBudget(null);
+    setSessionOccasion(batchMember ? getSharedOccasion(batchMember.batch) : NO_OCCASION);
+    setOfflineMode(preferOffline);
+    setAwaitingConnection(false);
+    setActiveProfile(profile);
+    setActiveBatch(batchMember?.batch ?? null);
+    if (batchMember) setMode(BATCH_MODE);
+
+    const seeded = profile ? buildProfileHistory(profile, locale.interviewLanguage) : { history: [], steps: [] };
+    if (profile) saveProfile({ ...profile, updatedAt: Date.now() });
+    setHistory(seeded.history);
+    setSteps(seeded.steps);
+    setData(null);
+    setAppState(batchMember ? 'budget' : 'occasion');
+  };
+
+  // Runs after the optional occasion step. The occasion is kept with the session, and only
+  // becomes an answer in modes whose script asks the occasion question anyway, so it never
+  // takes the place of a question the model would ask.
+  const handleOccasionChosen = ({ occasion, date }: { occasion: string | null; date: string | null }) => {
+    setSessionOccasion({ kind: occasion ? getOccasionKind(occasion) : null, date });
+    if (occasion && INTERVIEW_SCRIPTS[mode].questions.some(q => q.id === QUESTION_BANK.occasion.id)) {
+      const answered = buildOccasionHistory(occasion, locale.interviewLanguage);
+      setHistory([...history, ...answered.history]);
+      setSteps([...steps, ...answered.steps]);
+    }
+    setAppState('budget');
+  };
+
+  // Runs after the optional budget step; `chosen` is null when skipped.
+  const handleBudgetChosen = async (chosen: Budget | null) => {
+    setBudget(chosen);
     setAppState('loading');
 
-    // Initial Prompt
-    const prompt = "Start the session. Ask 'Who are you buying this gift for?'.";
+    const action = () => fetchNextStep(history, { kind: 'next' }, { budget: chosen });
+    setLastAction(() => action);
+    await action();
+  };
 
-    const action = () => fetchNextStep([], prompt);
+  // Re-asks for the final recommendations under a new (or no) budget, keeping the answers.
+  // The budget is only committed once the new results arrive, so cancelling keeps the old ones.
+  const handleBudgetRegenerate = async (next: Budget | null) => {
+    setEditingBudget(false);
+    setAppState('loading');
+
+    const action = () => fetchNextStep(history, { kind: 'budgetChanged' }, { budget: next, final: true });
     setLastAction(() => action);
     await action();
   };
 
   const handleReset = () => {
+    cancelPendingRequest();
+    if (sharedView) {
+      setSharedView(null);
+      clearShareHash();
+    }
+    sessionIdRef.current = null;
+    branchCacheRef.current.clear();
+    setSessionMarket(null);
+    setBudget(null);
+    setSessionOccasion(NO_OCCASION);
+    setOfflineMode(false);
+    setAwaitingConnection(false);
+    setActiveProfile(null);
+    setActiveBatch(null);
+    setEditingBudget(false);
     setHistory([]);
     setData(null);
+    setSteps([]);
+    setStreamPreview(null);
     setCustomInput("");
-    setErrorMsg("");
+    setAppError(null);
+    setShareStatus('idle');
     setAppState('intro');
     setThemeIndex(0);
   };
 
-  const handleAnswer = async (answer: string) => {
+  const handleLocaleChange = (next: LocaleSettings) => {
+    setLocale(next);
+    saveLocaleSettings(next);
+  };
+
+  const handleRetailerPrefsChange = (prefs: RetailerPreferences) => {
+    setRetailerPrefs(prefs);
+    saveRetailerPreferences(prefs);
+  };
+
+  const handleThemePrefsChange = (prefs: ThemePreferences) => {
+    setThemePrefs(prefs);
+    saveThemePreferences(prefs);
+  };
+
+  const handleShare = async () => {
+    const url = buildShareUrl({
+      recommendations: data?.recommendations ?? [],
+      answers: shareAnswers ? summarizeAnswers(history) : [],
+      market: activeMarket.code
+    });
+
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: t.shareTitle, url });
+        return;
+      }
+      await navigator.clipboard.writeText(url);
+      setShareStatus('copied');
+    } catch (error: any) {
+      // Dismissing the native share sheet is not an error worth surfacing
+      if (error?.name === 'AbortError') return;
+      console.error("Share Error:", error);
+      setShareStatus('failed');
+    }
+  };
+
+  // Reopens a saved session exactly where it was left, without calling the model.
+  const handleOpenSession = (session: SavedSession) => {
+    cancelPendingRequest();
+    sessionIdRef.current = session.id;
+    branchCacheRef.current.clear();
+    setSessionMarket(session.market);
+    setBudget(session.budget);
+    setSessionOccasion(session.occasion ?? NO_OCCASION);
+    setEditingBudget(false);
+    setMode(session.mode);
+    setOfflineMode(session.offline);
+    setAwaitingConnection(false);
+    setActiveProfile(loadProfiles().find(p => p.id === session.profileId) ?? null);
+    setActiveBatch(loadBatches().find(b => b.id === session.batchId) ?? null);
+    setHistory(session.history);
+    setData(session.data);
+    setSteps(session.steps);
+    setCustomInput("");
+    setAppError(null);
+    setAppState(session.data.isFinal ? 'results' : 'question');
+
+    // Rebuild one browser history entry per step so the back button keeps working
+    session.steps.forEach((_, i) => window.history.pushState({ giftyStep: i }, ''));
+  };
+
+  // Truncates the interview to the given question and shows it again.
+  const handleGoBack = (stepIndex: number) => {
+    const truncated = history.slice(0, stepIndex * 2);
+    const previous = steps[stepIndex];
+    cancelPendingRequest();
+
+    setHistory(truncated);
+    setCustomInput("");
+    setAppError(null);
+
+    if (previous) {
+      const nextSteps = steps.slice(0, stepIndex + 1);
+      setSteps(nextSteps);
+      setData(previous);
+      // Refined results keep the earlier results as a step of their own
+      setAppState(previous.isFinal ? 'results' : 'question');
+      persistSession(truncated, previous, nextSteps);
+      return;
+    }
+
+    // A step that wasn't recorded has to be asked again
+    setAppState('loading');
+    const action = () => fetchNextStep(truncated, { kind: 'next' });
+    setLastAction(() => action);
+    action();
+  };
+
+  // In-app back goes through the browser history so both stay in sync.
+  const navigateBack = (stepIndex: number) => {
+    const current = window.history.state?.giftyStep;
+    if (typeof current === 'number' && current > stepIndex) {
+      window.history.go(stepIndex - current);
+    } else {
+      handleGoBack(stepIndex);
+    }
+  };
+
+  const persistSession = (
+    currentHistory: HistoryItem[],
+    step: StepResponse,
+    currentSteps: (StepResponse | null)[],
+    activeBudget: Budget | null = budget,
+    offline = offlineMode,
+    profileId = activeProfile?.id
+  ) => {
+    if (sessionIdRef.current) {
+      saveSession({
+        id: sessionIdRef.current,
+        updatedAt: Date.now(),
+        history: currentHistory,
+        data: step,
+        steps: currentSteps,
+        market: activeMarket.code,
+        budget: activeBudget,
+        occasion: sessionOccasion,
+        mode,
+        offline,
+        profileId,
+        batchId: activeBatch?.id
+      });
+    }
+  };
+
+  // `offline` is passed explicitly when switching engines, since the state update isn't visible yet.
+  const applyStep = (currentHistory: HistoryItem[], step: StepResponse, activeBudget: Budget | null, offline = offlineMode) => {
+    const stepIndex = currentHistory.length / 2;
+    const nextSteps = [...Array.from({ length: stepIndex }, (_, i) => steps[i] ?? null), step];
+
+    branchCacheRef.current.set(JSON.stringify([currentHistory, activeBudget]), step);
+    setStreamPreview(null);
+    setBudget(activeBudget);
+    setData(step);
+    setSteps(nextSteps);
+    persistSession(currentHistory, step, nextSteps, activeBudget, offline);
+
+    if (window.history.state?.giftyStep !== stepIndex) {
+      window.history.pushState({ giftyStep: stepIndex }, '');
+    }
+    setAppState(step.isFinal ? 'results' : 'question');
+  };
+
+  const handleDeleteSession = (id: string) => {
+    deleteSession(id);
+    setSavedSessions(loadSessions());
+  };
+
+  // Fills a profile with what this interview learned about the recipient, for review before saving.
+  const handleSaveProfile = () => {
+    setEditingProfile({
+      id: activeProfile?.id ?? createProfileId(),
+      ...buildProfileFromHistory(history, activeProfile ?? undefined),
+      updatedAt: Date.now()
+    });
+  };
+
+  const handleProfileSaved = (profile: RecipientProfile) => {
+    saveProfile(profile);
+    setProfiles(loadProfiles());
+    // Saved from the results: the session now belongs to this recipient
+    if (appState === 'results' || activeProfile?.id === profile.id) {
+      setActiveProfile(profile);
+      if (data) persistSession(history, data, steps, budget, offlineMode, profile.id);
+    }
+    setEditingProfile(null);
+  };
+
+  const handleDeleteProfile = (id: string) => {
+    deleteProfile(id);
+    setProfiles(loadProfiles());
+  };
+
+  const handleOpenBatchSetup = () => {
+    cancelPendingRequest();
+    setActiveBatch(null);
+    setAppState('batch');
+  };
+
+  const handleCreateBatch = ({ names, profiles: picked, occasion, date }: { names: string[]; profiles: RecipientProfile[]; occasion: string; date: string | null }) => {
+    const batch: BatchSession = {
+      id: createSessionId(),
+      createdAt: Date.now(),
+      occasion,
+      date,
+      members: [
+        ...picked.map(profile => ({ name: profile.name, sessionId: createSessionId(), profileId: profile.id })),
+        ...names.map(name => ({ name, sessionId: createSessionId() }))
+      ]
+    };
+    saveBatch(batch);
+    setBatches(loadBatches());
+    setActiveBatch(batch);
+  };
+
+  const handleOpenBatch = (batch: BatchSession) => {
+    cancelPendingRequest();
+    setActiveBatch(batch);
+    setAppState('batch');
+  };
+
+  // Reopens the member's interview where it was left, or starts it with the shared answers.
+  const handleOpenBatchMember = (member: BatchMember) => {
+    const session = loadSessions().find(s => s.id === member.sessionId);
+    if (session) {
+      handleOpenSession(session);
+      return;
+    }
+    handleStart(profiles.find(p => p.id === member.profileId) ?? null, { batch: activeBatch!, member });
+  };
+
+  const handleBackToBoard = () => {
+    cancelPendingRequest();
+    setEditingBudget(false);
+    setAppState('batch');
+  };
+
+  const handleDeleteBatch = (id: string) => {
+    deleteBatch(id);
+    setBatches(loadBatches());
+    if (activeBatch?.id === id) handleReset();
+  };
+
+  const updateShortlist = (next: ShortlistItem[]) => {
+    setShortlist(next);
+    saveShortlist(next);
+  };
+
+  // Who the session's stars are for
+  const shortlistOwner: ShortlistOwner = {
+    market: activeMarket.code,
+    recipient: activeProfile?.name ?? history.find(h => h.role === 'user')?.text ?? '',
+    profileId: activeProfile?.id
+  };
+
+  const handleToggleShortlist = (gift: Recommendation) => {
+    updateShortlist(toggleShortlistItem(shortlist, gift, shortlistOwner));
+  };
+
+  // The gift joins the recipient's past gifts, so later sessions for them never suggest it again.
+  const handleMarkBought = (id: string, profileId: string) => {
+    const item = shortlist.find(i => i.id === id);
+    const profile = profiles.find(p => p.id === profileId);
+    if (!item || !profile) return;
+    const updated = addPastGift(profile, item.recommendation.name, item.recommendation.englishName);
+    saveProfile(updated);
+    setProfiles(loadProfiles());
+    if (activeProfile?.id === profileId) setActiveProfile(updated);
+    updateShortlist(markShortlistItemBought(shortlist, id, profileId));
+  };
+
+  const handleAnswer = async (answer: Answer) => {
     const newHistory: HistoryItem[] = [
       ...history,
       { role: 'model', text: data?.question || '' },
-      { role: 'user', text: answer }
+      createUserTurn(answer)
     ];
     setHistory(newHistory);
     setAppState('loading');
     setCustomInput("");
 
-    const action = () => fetchNextStep(newHistory, "");
+    const action = () => fetchNextStep(newHistory, { kind: 'next' });
     setLastAction(() => action);
     await action();
   };
 
-  const fetchNextStep = async (currentHistory: HistoryItem[], initialPrompt: string) => {
-    try {
-      const questionCount = currentHistory.filter(h => h.role === 'model').length;
+  const buildStepContext = (currentHistory: HistoryItem[], activeBudget: Budget | null): StepContext => {
+    const { kind, date, inferred } = resolveOccasion(sessionOccasion, currentHistory);
+    return {
+      mode,
+      interviewLanguage: locale.interviewLanguage,
+      market: activeMarket.code,
+      budget: activeBudget,
+      ...(kind || date
+        ? { occasion: { kind, inferred, date, daysLeft: date ? daysUntil(date) : null } }
+        : {}),
+      ...(activeProfile ? { recipient: { dislikes: activeProfile.dislikes, pastGifts: activeProfile.pastGifts } } : {}),
+      ...(activeBatch ? { takenGifts: getTakenGifts(activeBatch, loadSessions(), sessionIdRef.current) } : {})
+    };
+  };
 
-      const systemInstruction = `
-        You are Gifty, a sophisticated gift recommendation assistant using Gemini.
-        Your goal is to discover the perfect gift through a series of thoughtful questions.
-        
-        Mode Settings:
-        - Max Questions: 7
-        - Current Question Index: ${questionCount + 1}
-        
-        Instructions:
-        1. LANGUAGE PROTOCOL: 
-           - All 'question' and 'options' fields MUST be in ENGLISH.
-           - The conversation must flow in English.
-        2. If starting (History is empty), ask "Who are you buying this gift for?".
-        3. STRICT RULE: The second question (Question Index 2) MUST ask about the "Age Range" of the recipient.
-        4. Progressively narrow down interests and personality.
-        5. STRICTLY PROHIBITED: Do not ask any questions about price, budget, or money. Assume budget is flexible.
-        6. Provide 8-12 concise, distinct answer options in ENGLISH for every question.
-        7. If you have sufficient data OR Current Question >= 7, set 'isFinal' to true and provide 6-10 curated recommendations.
-        8. If 'isFinal' is true, set 'question' to a concluding phrase in ENGLISH like "Here are some curated ideas." and keep options empty.
-        9. CRITICAL EXCEPTION - TURKISH OUTPUT: When 'isFinal' is true, the items in the 'recommendations' array MUST be specific gift product names translated into TURKISH. This is the ONLY place Turkish is allowed. Example: Return "Kablosuz Kulaklık" instead of "Wireless Headphones".
-      `;
-
-      let userPrompt = initialPrompt;
-      if (!userPrompt) {
-        userPrompt = `Based on the conversation so far, determine the next step. History: ${JSON.stringify(currentHistory)}`;
-      }
+  // Answers the step from the bundled tree and catalog, and keeps the rest of the session there.
+  const serveOfflineStep = (currentHistory: HistoryItem[], activeBudget: Budget | null, final: boolean) => {
+    setOfflineMode(true);
+    applyStep(currentHistory, getOfflineStep(currentHistory, buildStepContext(currentHistory, activeBudget), final), activeBudget, true);
+  };
 
-      const response = await generateContentWithRetry(
-        MODEL_NAME,
-        userPrompt,
-        {
-          systemInstruction: systemInstruction,
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-              question: { type: Type.STRING },
-              options: { type: Type.ARRAY, items: { type: Type.STRING } },
-              isFinal: { type: Type.BOOLEAN },
-              recommendations: { type: Type.ARRAY, items: { type: Type.STRING } }
-            },
-            required: ["question", "options", "isFinal"]
-          }
-        }
-      );
+  const fetchNextStep = async (
+    currentHistory: HistoryItem[],
+    intent: StepIntent,
+    {
+      budget: activeBudget = budget,
+      final = false,
+      bypassCache = false,
+      refine
+    }: {
+      budget?: Budget | null;
+      final?: boolean;
+      bypassCache?: boolean;
+      // Refinements get only the new picks from the model; the kept ones are merged back in
+      refine?: { kept: Recommendation[]; current: Recommendation[]; limit: number };
+    } = {}
+  ) => {
+    cancelPendingRequest();
+    const replayed = branchCacheRef.current.get(JSON.stringify([currentHistory, activeBudget]));
+    if (replayed && !final && !bypassCache) {
+      applyStep(currentHistory, replayed, activeBudget);
+      return;
+    }
+
+    const script = INTERVIEW_SCRIPTS[mode];
+    const questionIndex = currentHistory.filter(h => h.role === 'model').length + 1;
+
+    // Scripted questions are served as-is; the model only fills the remaining slots
+    const scripted = final ? null : getScriptedStep(script, currentHistory, locale.interviewLanguage);
+    if (scripted) {
+      applyStep(currentHistory, scripted, activeBudget);
+      return;
+    }
+
+    if (offlineMode) {
+      serveOfflineStep(currentHistory, activeBudget, final);
+      return;
+    }
 
-      const jsonText = response.text;
-      if (jsonText) {
-        const parsed = JSON.parse(jsonText) as StepResponse;
-        setData(parsed);
-        if (parsed.isFinal) {
-          setAppState('results');
-        } else {
-          setAppState('question');
+    const context = buildStepContext(currentHistory, activeBudget);
+
+    // Forced wrap-ups depend on more than the history, so they are neither served nor stored
+    const cacheKey = buildCacheKey(currentHistory, context, provider.name);
+    const cached = final || bypassCache ? null : responseCache.get(cacheKey);
+    if (cached) {
+      applyStep(currentHistory, cached, activeBudget);
+      return;
+    }
+
+    const controller = new AbortController();
+    requestRef.current = controller;
+    const isCurrent = () => requestRef.current === controller;
+
+    const mustFinalize = final || questionIndex > script.maxQuestions;
+
+    try {
+      const userPrompt = buildStepPrompt(currentHistory, context, intent);
+
+      const request: ModelRequest = {
+        prompt: userPrompt,
+        systemInstruction: buildSystemInstruction(currentHistory, context, mustFinalize, intent),
+        responseSchema: STEP_RESPONSE_SCHEMA,
+        history: currentHistory,
+        context,
+        intent,
+        final: mustFinalize,
+        signal: controller.signal,
+        // Recommendations are only shown once complete, so only questions are streamed
+        onText: mustFinalize ? undefined : (textSoFar) => {
+          if (!isCurrent()) return;
+          const preview = readStepPreview(textSoFar);
+          setStreamPreview(prev => preview && prev?.question === preview.question && prev.options.length === preview.options.length
+            ? prev
+            : preview);
+        }
+      };
+      const validationContext: ValidationContext = {
+        questionIndex,
+        mustFinalize,
+        earliestFinal: getEarliestFinalPosition(script),
+        interviewLanguage: locale.interviewLanguage,
+        productLanguage: activeMarket.language,
+        excludedGifts: [...(activeProfile?.pastGifts ?? []), ...(context.takenGifts ?? [])]
+      };
+
+      // Malformed or rule-breaking replies are sent back with the problems listed, a bounded number of times
+      for (let attempt = 0; ; attempt++) {
+        setStreamPreview(null);
+        const response = await generateContentWithRetry(provider, request);
+        if (!isCurrent()) return;
+        const result = validateStepResponse(response.text, validationContext);
+        if (result.value) {
+          requestRef.current = null;
+          if (!final) responseCache.set(cacheKey, result.value);
+          applyStep(currentHistory, refine
+            ? { ...result.value, recommendations: mergeRecommendations(refine.kept, result.value.recommendations, refine.current, refine.limit) }
+            : result.value, activeBudget);
+          return;
         }
+        console.warn(`Invalid model response (attempt ${attempt + 1}):`, result.problems);
+        if (attempt >= MAX_REPAIR_ATTEMPTS) {
+          throw new InvalidResponseError(result.problems);
+        }
+        request.prompt = buildRepairPrompt(userPrompt, result.problems, response.text ?? '');
+        request.repair = result.problems;
       }
     } catch (error: any) {
-      console.error("Gemini Error:", error);
-      let message = "Something went wrong. Please check your connection and try again.";
-      if (error?.status === 429 || error?.code === 429) {
-        message = "We're receiving too many requests right now. Please wait a moment and try again.";
+      // Cancelled, or superseded by a newer request: whoever did that owns the screen now
+      if (!isCurrent()) return;
+      requestRef.current = null;
+      console.error(`Model Error (${provider.name}):`, error);
+      setStreamPreview(null);
+      const failure = classifyError(error);
+      if (OFFLINE_FALLBACK_ERRORS.includes(failure.kind)) {
+        setAwaitingConnection(failure.kind === 'offline');
+        serveOfflineStep(currentHistory, activeBudget, final);
+        return;
       }
-      setErrorMsg(message);
+      setAppError(failure);
+      setRetryCountdown(Math.ceil((failure.retryAfterMs ?? (failure.kind === 'rateLimited' ? DEFAULT_RATE_LIMIT_WAIT_MS : 0)) / 1000));
       setAppState('error');
     }
   };
 
+  // Arrow keys move between the result bubbles in reading order; Home and End jump to the ends.
+  const handleBubbleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const bubbles: HTMLElement[] = Array.from(e.currentTarget.querySelectorAll('.wiggle-bubble'));
+    const current = bubbles.findIndex(bubble => bubble.contains(document.activeElement));
+    const step = { ArrowRight: 1, ArrowDown: 1, ArrowLeft: -1, ArrowUp: -1 }[e.key];
+    let next: number;
+    if (step !== undefined) {
+      next = current === -1 ? 0 : (current + step + bubbles.length) % bubbles.length;
+    } else if (e.key === 'Home' || e.key === 'End') {
+      next = e.key === 'Home' ? 0 : bubbles.length - 1;
+    } else {
+      return;
+    }
+    e.preventDefault();
+    bubbles[next]?.querySelector('a')?.focus();
+  };
+
+  const handleOptionClick = (option: string) => {
+    if (!multiSelect) {
+      handleAnswer({ selected: [option], detail: "" });
+      return;
+    }
+    setSelectedOptions(prev => prev.includes(option) ? prev.filter(o => o !== option) : [...prev, option]);
+  };
+
+  // In multi-select mode the text box adds detail to the picked chips; otherwise it is the answer.
   const handleCustomSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (customInput.trim()) {
-      handleAnswer(customInput.trim());
+    const answer: Answer = { selected: multiSelect ? selectedOptions : [], detail: customInput.trim() };
+    if (!isEmptyAnswer(answer)) {
+      handleAnswer(answer);
+    }
+  };
+
+  // Asks the model again for the current question, skipping every cache.
+  const handleDifferentOptions = () => {
+    const shown = data;
+    setAppState('loading');
+    const intent: StepIntent = { kind: 'different', shown: { question: shown?.question ?? '', options: shown?.options ?? [] } };
+    const action = () => fetchNextStep(history, intent, { bypassCache: true });
+    setLastAction(() => action);
+    action();
+  };
+
+  // Re-asks for the results with the refinement appended to the history as a turn of its own.
+  const handleRefine = (refinement: Refinement) => {
+    const current = data?.recommendations ?? [];
+    const liked = current.filter(r => isShortlisted(shortlist, r, shortlistOwner));
+    const kept = getKeptRecommendations(refinement, current, liked);
+    const entry = refinement.kind === 'moreLike' ? t.refineMoreLikeEntry(refinement.gift.name)
+      : refinement.kind === 'notThis' ? t.refineNotThisEntry(refinement.gift.name)
+      : refinement.kind === 'showMore' ? t.refineShowMoreEntry
+      : refinement.text;
+    const newHistory: HistoryItem[] = [
+      ...history,
+      { role: 'model', text: data?.question || '' },
+      createUserTurn({ selected: [], detail: entry })
+    ];
+    setHistory(newHistory);
+    setCustomInput("");
+    setOpenRationale(null);
+    setAppState('loading');
+
+    const intent: StepIntent = { kind: 'refine', refinement, current: current.map(r => r.englishName) };
+    const action = () => fetchNextStep(newHistory, intent, { final: true, refine: { kept, current, limit: getRefinementCount(refinement) } });
+    setLastAction(() => action);
+    action();
+  };
+
+  const handleTweakSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = customInput.trim();
+    if (text) handleRefine({ kind: 'tweak', text });
+  };
+
+  // Abandons the pending step and returns to the screen it was requested from.
+  const handleCancel = () => {
+    cancelPendingRequest();
+    setStreamPreview(null);
+    const stepIndex = history.length / 2;
+    const current = steps[stepIndex];
+    if (current) {
+      // Regenerating results: keep the ones already shown
+      setData(current);
+      setAppState(current.isFinal ? 'results' : 'question');
+    } else if (stepIndex > 0) {
+      handleGoBack(stepIndex - 1);
+    } else {
+      setAppState('budget');
     }
   };
 
   const handleRetry = () => {
     setAppState('loading');
-    setErrorMsg("");
+    setAppError(null);
     lastAction();
   };
 
+  // Gives up on the model for this session and answers the pending step offline.
+  const handleContinueOffline = () => {
+    setAppError(null);
+    serveOfflineStep(history, budget, Boolean(steps[history.length / 2]?.isFinal));
+  };
+
+  // Reopens the last question with the answer that triggered the error ready to rephrase.
+  const handleEditLastAnswer = () => {
+    const lastAnswer = history[history.length - 1];
+    handleGoBack(history.length / 2 - 1);
+    setCustomInput(lastAnswer?.text ?? "");
+  };
+
+  // Falls back to every store of the market if the user disabled them all
+  const getShopRetailers = (market: string) => {
+    const enabled = getEnabledRetailers(retailerPrefs, market);
+    return enabled.length > 0 ? enabled : orderRetailers(retailerPrefs, market);
+  };
+  const shopRetailers = getShopRetailers(activeMarket.code);
+
+  const formatGiftPrice = (gift: Recommendation) => gift.estimatedPrice
+    ? `~${formatMoney(gift.estimatedPrice, locale.uiLanguage)}`
+    : formatPriceTier(gift.priceTier, activeMarket.currencySymbol);
+
+  // Who the results are for, when we know their name
+  const recipientName = activeProfile?.name ?? activeBatch?.members.find(m => m.sessionId === sessionIdRef.current)?.name;
+
+  // The results on screen with the answers that led to them, for the export menu
+  const buildExportDocument = (): ExportDocument => ({
+    title: recipientName ? t.exportTitleFor(recipientName) : t.exportTitle,
+    answers: summarizeAnswers(history),
+    items: (data?.recommendations ?? []).map(gift => ({
+      name: gift.name,
+      englishName: gift.englishName,
+      category: t.categories[gift.category],
+      price: formatGiftPrice(gift),
+      rationale: gift.rationale,
+      links: shopRetailers.map(retailer => ({ store: retailer.name, url: buildRetailerUrl(retailer, gift.name) }))
+    })),
+    labels: t.exportLabels
+  });
+
+  const handleDownloadReminder = (date: string) => {
+    const { items } = buildExportDocument();
+    const ics = buildIcs({
+      uid: `${sessionIdRef.current ?? createSessionId()}-${date}`,
+      date,
+      summary: recipientName ? t.reminderSummaryFor(recipientName) : t.reminderSummary,
+      description: items.map(item => `${item.name}: ${item.links[0]?.url ?? ''}`).join('\n'),
+      alertDaysBefore: REMINDER_ALERT_DAYS
+    });
+    downloadFile('gifty-reminder.ics', ics, 'text/calendar;charset=utf-8');
+  };
+
+  const maxQuestions = INTERVIEW_SCRIPTS[mode].maxQuestions;
+  const questionNumber = history.length / 2 + 1;
+
+  // While streaming, the question screen renders the partial step with its controls disabled
+  const streaming = appState === 'loading' && streamPreview !== null;
+  // Scripted questions have fixed options, so there is nothing different to ask for
+  const isScriptedQuestion = INTERVIEW_SCRIPTS[mode].questions.some(q => Object.values(q.question).includes(data?.question));
+  // Refinements need the model; the offline catalog has nothing more to say
+  const canRefine = appState === 'results' && !sharedView && !offlineMode;
+  const questionStep: StepPreview | null = appState === 'question' ? data : streaming ? streamPreview : null;
+
+  // Read out on screen changes; the new heading takes focus as well
+  const announcement = appState === 'loading' ? t.announceLoading
+    : appState === 'question' ? t.progress(Math.min(questionNumber, maxQuestions), maxQuestions)
+    : appState === 'results' && data ? t.announceResults(data.recommendations.length)
+    : '';
+
+  // Days until the gift is needed, when a date was given
+  const neededIn = sessionOccasion.date ? daysUntil(sessionOccasion.date) : null;
+
+  const resumableSession = findResumableSession(savedSessions);
+  const completedSessions = findCompletedSessions(savedSessions);
+
   // --- Styles Helper ---
-  const theme = THEMES[themeIndex];
+
+  // Kept in the accessibility tree, off screen
+  const visuallyHidden: React.CSSProperties = {
+    position: 'absolute',
+    width: '1px',
+    height: '1px',
+    overflow: 'hidden',
+    clip: 'rect(0 0 0 0)',
+    whiteSpace: 'nowrap'
+  };
 
   // Minimalistic button style
   const cardStyle = {
@@ -384,7 +1159,7 @@ const App = () => {
           z-index: 1;
         }
         
-        .rainbow-btn:hover {
+        .rainbow-btn:hover, .rainbow-btn:focus-visible {
            transform: scale(1.05);
            box-shadow: 0 12px 24px rgba(0,0,0,0.2);
            color: #fff !important;
@@ -416,26 +1191,27 @@ const App = () => {
           gifty<span style={{ color: theme.accent }}>.</span>
         </h1>
 
-        {appState !== 'intro' && (
-          <div style={{ display: 'flex', alignItems: 'center', gap: '1rem' }}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '1rem' }}>
+          {appState !== 'intro' && (
             <div
               style={{ position: 'relative', display: 'flex', alignItems: 'center' }}
-              onMouseEnter={() => setShowInfo(true)}
-              onMouseLeave={() => setShowInfo(false)}
+              {...hoverEffect(() => setShowInfo(true), () => setShowInfo(false))}
             >
-              <div style={{
-                cursor: 'help',
-                opacity: 0.6,
-                color: theme.text,
-                transition: 'opacity 0.1s'
-              }}
-                onMouseEnter={(e) => e.currentTarget.style.opacity = '1'}
-                onMouseLeave={(e) => e.currentTarget.style.opacity = '0.6'}
+              <div
+                tabIndex={0}
+                aria-describedby="tip-combine"
+                style={{
+                  cursor: 'help',
+                  opacity: 0.6,
+                  color: theme.text,
+                  transition: 'opacity 0.1s'
+                }}
+                {...hoverOpacity}
               >
                 <InfoIcon />
               </div>
 
-              <div style={{
+              <div id="tip-combine" role="tooltip" style={{
                 position: 'absolute',
                 top: '100%',
                 right: 0,
@@ -456,13 +1232,56 @@ const App = () => {
                 lineHeight: 1.4,
                 fontWeight: 500
               }}>
-                Tip: Use the text box to combine options or add details.
+                {t.tipCombine}
               </div>
             </div>
+          )}
+
+          {shortlist.length > 0 && (
+            <button
+              onClick={() => setShowShortlist(true)}
+              aria-label={t.shortlist(shortlist.length)}
+              style={{
+                background: 'transparent',
+                border: 'none',
+                color: theme.text,
+                cursor: 'pointer',
+                padding: '8px',
+                opacity: 0.6,
+                transition: 'opacity 0.1s',
+                display: 'flex',
+                alignItems: 'center',
+                gap: '4px',
+                fontWeight: 700
+              }}
+              {...hoverOpacity}
+            >
+              <StarIcon />
+              {shortlist.length}
+            </button>
+          )}
 
+          <button
+            onClick={() => setShowSettings(true)}
+            aria-label={t.settings}
+            style={{
+              background: 'transparent',
+              border: 'none',
+              color: theme.text,
+              cursor: 'pointer',
+              padding: '8px',
+              opacity: 0.6,
+              transition: 'opacity 0.1s'
+            }}
+            {...hoverOpacity}
+          >
+            <SettingsIcon />
+          </button>
+
+          {appState !== 'intro' && (
             <button
               onClick={handleReset}
-              aria-label="Restart"
+              aria-label={t.restart}
               style={{
                 background: 'transparent',
                 border: 'none',
@@ -472,27 +1291,65 @@ const App = () => {
                 opacity: 0.6,
                 transition: 'opacity 0.1s'
               }}
-              onMouseEnter={(e) => e.currentTarget.style.opacity = '1'}
-              onMouseLeave={(e) => e.currentTarget.style.opacity = '0.6'}
+              {...hoverOpacity}
             >
               <RefreshIcon />
             </button>
-          </div>
-        )}
+          )}
+        </div>
       </div>
 
+      {showSettings && (
+        <SettingsPanel
+          theme={theme}
+          t={t}
+          locale={locale}
+          onLocaleChange={handleLocaleChange}
+          retailerPrefs={retailerPrefs}
+          onRetailerPrefsChange={handleRetailerPrefsChange}
+          themePrefs={themePrefs}
+          onThemePrefsChange={handleThemePrefsChange}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
+      {showShortlist && (
+        <ShortlistPanel
+          theme={theme}
+          t={t}
+          language={locale.uiLanguage}
+          items={shortlist}
+          profiles={profiles}
+          getRetailers={getShopRetailers}
+          onRemove={(id) => updateShortlist(removeShortlistItem(shortlist, id))}
+          onMarkBought={handleMarkBought}
+          onClose={() => setShowShortlist(false)}
+        />
+      )}
+
+      {editingProfile && (
+        <ProfileEditor
+          theme={theme}
+          t={t}
+          profile={editingProfile}
+          onSave={handleProfileSaved}
+          onClose={() => setEditingProfile(null)}
+        />
+      )}
+
       <div ref={containerRef} style={{ width: '100%', flex: 1, overflowY: 'auto', display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
         <div ref={contentRef} style={{ width: '100%', maxWidth: '800px', padding: '0 2rem 4rem 2rem', display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
 
+          <div role="status" aria-live="polite" style={visuallyHidden}>{announcement}</div>
+
           {appState === 'intro' && (
             <div style={{ width: '100%', display: 'flex', flexDirection: 'column', alignItems: 'center', textAlign: 'center' }}>
               <div className="stagger-in" style={{ marginBottom: '2rem' }}>
                 <h2 style={{ fontSize: '2.5rem', fontWeight: 700, marginBottom: '1rem' }}>
-                  Find the Perfect Gift.
+                  {t.introTitle}
                 </h2>
                 <p style={{ fontSize: '1.2rem', opacity: 0.8, maxWidth: '600px', lineHeight: 1.6, margin: '0 auto' }}>
-                  Gifty asks you a few simple questions to understand who you're buying for.
-                  Within 7 steps, we'll curate a list of personalized recommendations just for you.
+                  {t.introBody}
                 </p>
               </div>
 
@@ -504,8 +1361,8 @@ const App = () => {
                 flexWrap: 'wrap'
               }}>
                 {[
-                  { title: "Smart AI", desc: "Powered by Gemini" },
-                  { title: "Quick", desc: "Under 2 mins" }
+                  { title: t.featureSmartTitle, desc: t.providerTaglines[provider.name] },
+                  { title: t.featureQuickTitle, desc: t.featureQuickDesc }
                 ].map((item, i) => (
                   <div key={i} style={{
                     display: 'flex', flexDirection: 'column', alignItems: 'center',
@@ -517,11 +1374,55 @@ const App = () => {
                 ))}
               </div>
 
+              <div className="stagger-in" role="radiogroup" aria-label={t.modeHeading} style={{ marginBottom: '2.5rem' }}>
+                <div style={{ fontSize: '0.85rem', textTransform: 'uppercase', letterSpacing: '1px', opacity: 0.6, marginBottom: '0.75rem' }}>
+                  {t.modeHeading}
+                </div>
+                <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'center', flexWrap: 'wrap' }}>
+                  {INTERVIEW_MODES.map((m) => {
+                    const selected = m === mode;
+                    return (
+                      <button
+                        key={m}
+                        role="radio"
+                        aria-checked={selected}
+                        onClick={() => setMode(m)}
+                        style={{
+                          ...cardStyle,
+                          backgroundColor: selected ? theme.primary : theme.secondary,
+                          color: selected ? theme.bg : theme.text,
+                          padding: '0.75rem 1.25rem',
+                          cursor: 'pointer',
+                          display: 'flex',
+                          flexDirection: 'column',
+                          alignItems: 'center',
+                          minWidth: '120px'
+                        }}
+                      >
+                        <span style={{ fontWeight: 700 }}>{t.modes[m].label}</span>
+                        <span style={{ fontSize: '0.8rem', opacity: 0.8 }}>{t.modes[m].desc}</span>
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+
+              <label className="stagger-in" style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '0.5rem', marginTop: '-1.5rem', marginBottom: '2.5rem', fontSize: '0.95rem', cursor: 'pointer' }}>
+                <input
+                  type="checkbox"
+                  checked={preferOffline}
+                  onChange={(e) => setPreferOffline(e.target.checked)}
+                />
+                {t.offlineToggle}
+              </label>
+
               <button
                 className="stagger-in rainbow-btn"
-                onClick={handleStart}
-                onMouseEnter={() => rainbowTrackRef.current && gsap.to(rainbowTrackRef.current, { opacity: 1, duration: 0.4 })}
-                onMouseLeave={() => rainbowTrackRef.current && gsap.to(rainbowTrackRef.current, { opacity: 0, duration: 0.4 })}
+                onClick={() => handleStart()}
+                {...hoverEffect(
+                  () => rainbowTrackRef.current && gsap.to(rainbowTrackRef.current, { opacity: 1, duration: 0.4 }),
+                  () => rainbowTrackRef.current && gsap.to(rainbowTrackRef.current, { opacity: 0, duration: 0.4 })
+                )}
                 style={{
                   ...primaryBtnStyle,
                   padding: '1.5rem 4rem',
@@ -560,12 +1461,278 @@ const App = () => {
                   <div style={{ flex: 1, marginLeft: '-1px', background: 'linear-gradient(90deg, #FF3B30, #007AFF, #FFCC00, #FF2D55, #FF3B30)' }}></div>
                 </div>
 
-                <span style={{ position: 'relative', zIndex: 1 }}>Start Experience</span>
+                <span style={{ position: 'relative', zIndex: 1 }}>{t.start}</span>
+              </button>
+
+              <button
+                className="stagger-in"
+                onClick={handleOpenBatchSetup}
+                style={{
+                  marginTop: '1rem',
+                  background: 'transparent',
+                  border: 'none',
+                  color: theme.text,
+                  opacity: 0.8,
+                  padding: '0.5rem 1rem',
+                  fontSize: '1rem',
+                  fontWeight: 600,
+                  cursor: 'pointer'
+                }}
+              >
+                {t.batchStartButton}
               </button>
+
+              {resumableSession && (
+                <button
+                  className="stagger-in"
+                  onClick={() => handleOpenSession(resumableSession)}
+                  style={{
+                    marginTop: '1.5rem',
+                    background: 'transparent',
+                    border: `2px solid ${theme.primary}`,
+                    color: theme.text,
+                    borderRadius: '50px',
+                    padding: '0.9rem 2rem',
+                    fontSize: '1rem',
+                    fontWeight: 600,
+                    cursor: 'pointer'
+                  }}
+                  {...hoverScale()}
+                >
+                  {t.resume(describeSession(resumableSession, t.untitledSession))}
+                </button>
+              )}
+
+              {batches.length > 0 && (
+                <div className="stagger-in" style={{ marginTop: '3rem', width: '100%', maxWidth: '500px' }}>
+                  <h3 style={{ fontSize: '0.85rem', textTransform: 'uppercase', letterSpacing: '1px', opacity: 0.6, marginBottom: '1rem' }}>
+                    {t.batchesHeading}
+                  </h3>
+                  <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+                    {batches.map((batch) => {
+                      const label = batch.members.map(m => m.name).join(', ');
+                      return (
+                        <div key={batch.id} style={{ ...cardStyle, display: 'flex', alignItems: 'center' }}>
+                          <button
+                            onClick={() => handleOpenBatch(batch)}
+                            style={{
+                              flex: 1,
+                              background: 'transparent',
+                              border: 'none',
+                              color: theme.text,
+                              padding: '0.9rem 1.25rem',
+                              textAlign: 'left',
+                              fontSize: '1rem',
+                              cursor: 'pointer',
+                              display: 'flex',
+                              justifyContent: 'space-between',
+                              gap: '1rem'
+                            }}
+                          >
+                            <span style={{ fontWeight: 600, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{label}</span>
+                            <span style={{ opacity: 0.6, whiteSpace: 'nowrap' }}>{batch.occasion}</span>
+                          </button>
+                          <button
+                            onClick={() => handleDeleteBatch(batch.id)}
+                            aria-label={t.deleteBatch(label)}
+                            style={{
+                              background: 'transparent',
+                              border: 'none',
+                              color: theme.text,
+                              opacity: 0.5,
+                              cursor: 'pointer',
+                              padding: '0.9rem 1rem',
+                              fontSize: '1.1rem'
+                            }}
+                          >
+                            ×
+                          </button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
+              <div className="stagger-in" style={{ marginTop: '3rem', width: '100%', maxWidth: '500px' }}>
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem' }}>
+                  <h3 style={{ fontSize: '0.85rem', textTransform: 'uppercase', letterSpacing: '1px', opacity: 0.6, margin: 0 }}>
+                    {t.profilesHeading}
+                  </h3>
+                  <button
+                    onClick={() => setEditingProfile({ id: createProfileId(), name: '', relationship: '', ageRange: '', interests: [], dislikes: [], pastGifts: [], updatedAt: Date.now() })}
+                    style={{ background: 'transparent', border: 'none', color: theme.text, fontSize: '0.9rem', fontWeight: 600, cursor: 'pointer', opacity: 0.8 }}
+                  >
+                    + {t.addProfile}
+                  </button>
+                </div>
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+                  {profiles.map((profile) => (
+                    <div key={profile.id} style={{ ...cardStyle, display: 'flex', alignItems: 'center' }}>
+                      <button
+                        onClick={() => handleStart(profile)}
+                        style={{
+                          flex: 1,
+                          background: 'transparent',
+                          border: 'none',
+                          color: theme.text,
+                          padding: '0.9rem 1.25rem',
+                          textAlign: 'left',
+                          fontSize: '1rem',
+                          cursor: 'pointer',
+                          display: 'flex',
+                          justifyContent: 'space-between',
+                          gap: '1rem'
+                        }}
+                      >
+                        <span style={{ fontWeight: 600 }}>{profile.name}</span>
+                        <span style={{ opacity: 0.6 }}>{[profile.relationship, profile.ageRange].filter(Boolean).join(' · ')}</span>
+                      </button>
+                      <button
+                        onClick={() => setEditingProfile(profile)}
+                        aria-label={t.editProfile(profile.name)}
+                        style={{ background: 'transparent', border: 'none', color: theme.text, opacity: 0.6, cursor: 'pointer', padding: '0.9rem 0.5rem', fontSize: '0.9rem', fontWeight: 600 }}
+                      >
+                        ✎
+                      </button>
+                      <button
+                        onClick={() => handleDeleteProfile(profile.id)}
+                        aria-label={t.deleteProfile(profile.name)}
+                        style={{
+                          background: 'transparent',
+                          border: 'none',
+                          color: theme.text,
+                          opacity: 0.5,
+                          cursor: 'pointer',
+                          padding: '0.9rem 1rem',
+                          fontSize: '1.1rem'
+                        }}
+                      >
+                        ×
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {completedSessions.length > 0 && (
+                <div className="stagger-in" style={{ marginTop: '3rem', width: '100%', maxWidth: '500px' }}>
+                  <h3 style={{ fontSize: '0.85rem', textTransform: 'uppercase', letterSpacing: '1px', opacity: 0.6, marginBottom: '1rem' }}>
+                    {t.pastSessions}
+                  </h3>
+                  <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+                    {completedSessions.map((session) => (
+                      <div key={session.id} style={{ ...cardStyle, display: 'flex', alignItems: 'center' }}>
+                        <button
+                          onClick={() => handleOpenSession(session)}
+                          style={{
+                            flex: 1,
+                            background: 'transparent',
+                            border: 'none',
+                            color: theme.text,
+                            padding: '0.9rem 1.25rem',
+                            textAlign: 'left',
+                            fontSize: '1rem',
+                            cursor: 'pointer',
+                            display: 'flex',
+                            justifyContent: 'space-between',
+                            gap: '1rem'
+                          }}
+                        >
+                          <span style={{ fontWeight: 600 }}>{describeSession(session, t.untitledSession)}</span>
+                          <span style={{ opacity: 0.6 }}>
+                            {t.sessionSummary(session.data.recommendations?.length ?? 0, new Date(session.updatedAt).toLocaleDateString(locale.uiLanguage))}
+                          </span>
+                        </button>
+                        <button
+                          onClick={() => handleDeleteSession(session.id)}
+                          aria-label={t.deleteSession(describeSession(session, t.untitledSession))}
+                          style={{
+                            background: 'transparent',
+                            border: 'none',
+                            color: theme.text,
+                            opacity: 0.5,
+                            cursor: 'pointer',
+                            padding: '0.9rem 1rem',
+                            fontSize: '1.1rem'
+                          }}
+                        >
+                          ×
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
           )}
 
-          {appState === 'loading' && (
+          {appState === 'batch' && (activeBatch ? (
+            <BatchBoard
+              theme={theme}
+              t={t}
+              batch={activeBatch}
+              sessions={savedSessions}
+              getRetailers={getShopRetailers}
+              onOpenMember={handleOpenBatchMember}
+              onDelete={() => handleDeleteBatch(activeBatch.id)}
+            />
+          ) : (
+            <BatchSetup
+              theme={theme}
+              t={t}
+              profiles={profiles}
+              occasions={QUESTION_BANK.occasion.options[locale.interviewLanguage]}
+              onCreate={handleCreateBatch}
+              onCancel={handleReset}
+            />
+          ))}
+
+          {appState === 'occasion' && (
+            <div style={{ width: '100%', display: 'flex', flexDirection: 'column', alignItems: 'center', textAlign: 'center' }}>
+              <h2 className="stagger-in" style={{ fontSize: '2.5rem', marginBottom: '1rem', fontWeight: 600, lineHeight: 1.2 }}>
+                {t.occasionTitle}
+              </h2>
+              <p className="stagger-in" style={{ opacity: 0.7, fontSize: '1.1rem', marginBottom: '2.5rem' }}>
+                {t.occasionHint}
+              </p>
+              <div className="stagger-in" style={{ width: '100%', display: 'flex', justifyContent: 'center' }}>
+                <OccasionForm
+                  theme={theme}
+                  t={t}
+                  occasions={QUESTION_BANK.occasion.options[locale.interviewLanguage]}
+                  initialDate={sessionOccasion.date}
+                  onSubmit={handleOccasionChosen}
+                  onSkip={() => handleOccasionChosen({ occasion: null, date: null })}
+                />
+              </div>
+            </div>
+          )}
+
+          {appState === 'budget' && (
+            <div style={{ width: '100%', display: 'flex', flexDirection: 'column', alignItems: 'center', textAlign: 'center' }}>
+              <h2 className="stagger-in" style={{ fontSize: '2.5rem', marginBottom: '1rem', fontWeight: 600, lineHeight: 1.2 }}>
+                {t.budgetTitle}
+              </h2>
+              <p className="stagger-in" style={{ opacity: 0.7, fontSize: '1.1rem', marginBottom: '2.5rem' }}>
+                {t.budgetHint}
+              </p>
+              <div className="stagger-in" style={{ width: '100%', display: 'flex', justifyContent: 'center' }}>
+                <BudgetForm
+                  theme={theme}
+                  t={t}
+                  initial={budget}
+                  defaultCurrency={activeMarket.currency}
+                  submitLabel={t.budgetContinue}
+                  skipLabel={t.budgetSkip}
+                  onSubmit={handleBudgetChosen}
+                  onSkip={() => handleBudgetChosen(null)}
+                />
+              </div>
+            </div>
+          )}
+
+          {appState === 'loading' && !streaming && (
             <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center', height: '40vh' }}>
               <div className="spinner" style={{
                 width: '50px',
@@ -577,47 +1744,175 @@ const App = () => {
             </div>
           )}
 
-          {appState === 'error' && (
+          {appState === 'error' && appError && (
             <div className="stagger-in" style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center', height: '50vh', textAlign: 'center' }}>
               <div style={{ color: theme.accent, marginBottom: '1.5rem' }}>
                 <AlertTriangleIcon />
               </div>
               <h2 style={{ fontSize: '1.5rem', fontWeight: 600, marginBottom: '1rem' }}>
-                Oops!
+                {t.errorTitle}
               </h2>
-              <p style={{ maxWidth: '400px', opacity: 0.8, marginBottom: '2rem', lineHeight: '1.6' }}>
-                {errorMsg}
+              <p role="alert" style={{ maxWidth: '400px', opacity: 0.8, marginBottom: '2rem', lineHeight: '1.6' }}>
+                {t.errors[appError.kind]}
               </p>
+              <div style={{ display: 'flex', gap: '1rem', flexWrap: 'wrap', justifyContent: 'center' }}>
+                <button
+                  onClick={handleRetry}
+                  disabled={retryCountdown > 0}
+                  style={{
+                    ...primaryBtnStyle,
+                    padding: '1rem 2.5rem',
+                    fontSize: '1rem',
+                    fontWeight: 600,
+                    cursor: retryCountdown > 0 ? 'not-allowed' : 'pointer',
+                    opacity: retryCountdown > 0 ? 0.6 : 1
+                  }}
+                  {...hoverScale()}
+                >
+                  {retryCountdown > 0 ? t.retryIn(retryCountdown) : t.tryAgain}
+                </button>
+                {ANSWER_RELATED_ERRORS.includes(appError.kind) && history.length > 0 && (
+                  <button
+                    onClick={handleEditLastAnswer}
+                    style={{
+                      background: 'transparent',
+                      border: `2px solid ${theme.primary}`,
+                      color: theme.text,
+                      borderRadius: '50px',
+                      padding: '1rem 2rem',
+                      fontSize: '1rem',
+                      fontWeight: 600,
+                      cursor: 'pointer'
+                    }}
+                  >
+                    {t.editLastAnswer}
+                  </button>
+                )}
+                <button
+                  onClick={handleContinueOffline}
+                  style={{
+                    background: 'transparent',
+                    border: `2px solid ${theme.primary}`,
+                    color: theme.text,
+                    borderRadius: '50px',
+                    padding: '1rem 2rem',
+                    fontSize: '1rem',
+                    fontWeight: 600,
+                    cursor: 'pointer'
+                  }}
+                >
+                  {t.continueOffline}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {offlineMode && (appState === 'question' || appState === 'results') && (
+            <div role="status" className="stagger-in" style={{
+              ...cardStyle,
+              borderRadius: '50px',
+              padding: '0.4rem 1rem',
+              marginBottom: '1.5rem',
+              fontSize: '0.85rem',
+              fontWeight: 600
+            }}>
+              {t.offlineBadge}
+              {awaitingConnection && <span style={{ fontWeight: 400, opacity: 0.8 }}> · {t.waitingForConnection}</span>}
+            </div>
+          )}
+
+          {(appState === 'question' || appState === 'results') && history.length > 0 && (
+            <nav
+              aria-label={t.previousQuestions}
+              style={{ width: '100%', display: 'flex', alignItems: 'center', gap: '0.5rem', flexWrap: 'wrap', marginBottom: '2rem' }}
+            >
               <button
-                onClick={handleRetry}
+                onClick={() => navigateBack(history.length / 2 - 1)}
+                aria-label={t.backToPrevious}
                 style={{
-                  ...primaryBtnStyle,
-                  padding: '1rem 2.5rem',
-                  fontSize: '1rem',
-                  fontWeight: 600,
-                  cursor: 'pointer'
+                  background: 'transparent',
+                  border: 'none',
+                  color: theme.text,
+                  cursor: 'pointer',
+                  padding: '6px',
+                  opacity: 0.6,
+                  display: 'flex',
+                  alignItems: 'center'
                 }}
-                onMouseEnter={(e) => gsap.to(e.currentTarget, { scale: 1.05, duration: 0.1 })}
-                onMouseLeave={(e) => gsap.to(e.currentTarget, { scale: 1, duration: 0.1 })}
+                {...hoverOpacity}
               >
-                Try Again
+                <ArrowLeftIcon />
               </button>
-            </div>
+              {Array.from({ length: history.length / 2 }, (_, i) => (
+                <button
+                  key={i}
+                  onClick={() => navigateBack(i)}
+                  title={t.tapToChange(history[i * 2].text)}
+                  style={{
+                    ...cardStyle,
+                    borderRadius: '50px',
+                    padding: '0.4rem 0.9rem',
+                    fontSize: '0.85rem',
+                    cursor: 'pointer',
+                    maxWidth: '180px',
+                    overflow: 'hidden',
+                    textOverflow: 'ellipsis',
+                    whiteSpace: 'nowrap'
+                  }}
+                  {...hoverEffect(
+                    el => gsap.to(el, { backgroundColor: theme.primary, color: theme.bg, duration: 0.1 }),
+                    el => gsap.to(el, { backgroundColor: theme.secondary, color: theme.text, duration: 0.1 })
+                  )}
+                >
+                  {history[i * 2 + 1].text}
+                </button>
+              ))}
+            </nav>
           )}
 
-          {appState === 'question' && data && (
-            <div style={{ width: '100%', display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
-              <h2 className="stagger-in" style={{
+          {questionStep && (
+            <div aria-busy={streaming} style={{ width: '100%', display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
+              <div className="stagger-in" style={{ width: '100%', maxWidth: '400px', marginBottom: '2rem', textAlign: 'center' }}>
+                <div style={{ fontSize: '0.85rem', opacity: 0.6, marginBottom: '0.5rem', fontWeight: 600 }}>
+                  {t.progress(Math.min(questionNumber, maxQuestions), maxQuestions)}
+                </div>
+                <div
+                  role="progressbar"
+                  aria-valuemin={0}
+                  aria-valuemax={maxQuestions}
+                  aria-valuenow={Math.min(questionNumber, maxQuestions)}
+                  style={{ height: '6px', borderRadius: '3px', backgroundColor: theme.secondary, overflow: 'hidden' }}
+                >
+                  <div style={{
+                    height: '100%',
+                    width: `${Math.min(100, (questionNumber / maxQuestions) * 100)}%`,
+                    backgroundColor: theme.primary,
+                    transition: 'width 0.4s ease'
+                  }}></div>
+                </div>
+              </div>
+
+              <h2 ref={headingRef} tabIndex={-1} className="stagger-in" style={{
                 fontSize: '2.5rem',
                 textAlign: 'center',
                 marginBottom: '3rem',
                 maxWidth: '90%',
                 fontWeight: 600,
-                lineHeight: 1.2
+                lineHeight: 1.2,
+                outline: 'none'
               }}>
-                {data.question}
+                {questionStep.question}
               </h2>
 
+              <label className="stagger-in" style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '1.25rem', fontSize: '0.95rem', fontWeight: 500, cursor: 'pointer', opacity: 0.8 }}>
+                <input
+                  type="checkbox"
+                  checked={multiSelect}
+                  onChange={(e) => { setMultiSelect(e.target.checked); setSelectedOptions([]); }}
+                />
+                {t.multiSelect}
+              </label>
+
               <div style={{
                 display: 'grid',
                 gridTemplateColumns: 'repeat(auto-fit, minmax(160px, 1fr))',
@@ -626,37 +1921,82 @@ const App = () => {
                 maxWidth: '800px',
                 marginBottom: '2rem'
               }}>
-                {data.options.map((option, idx) => (
-                  <button
-                    key={idx}
-                    className="stagger-in"
-                    onClick={() => handleAnswer(option)}
-                    style={{
-                      ...cardStyle,
-                      padding: '1.25rem',
-                      fontWeight: 500,
-                      cursor: 'pointer',
-                      fontSize: '1rem',
-                      display: 'flex',
-                      alignItems: 'center',
-                      justifyContent: 'center',
-                      textAlign: 'center',
-                      backgroundColor: theme.secondary,
-                      color: theme.text,
-                      boxShadow: '0 4px 12px rgba(0,0,0,0.06)'
-                    }}
-                    onMouseEnter={(e) => {
-                      gsap.to(e.currentTarget, { scale: 1.02, backgroundColor: theme.primary, color: theme.bg, duration: 0.1 });
-                    }}
-                    onMouseLeave={(e) => {
-                      gsap.to(e.currentTarget, { scale: 1, backgroundColor: theme.secondary, color: theme.text, duration: 0.1 });
-                    }}
-                  >
-                    {option}
-                  </button>
-                ))}
+                {questionStep.options.map((option, idx) => {
+                  const picked = selectedOptions.includes(option);
+                  return (
+                    <button
+                      key={idx}
+                      className="stagger-in"
+                      disabled={streaming}
+                      onClick={() => handleOptionClick(option)}
+                      aria-pressed={multiSelect ? picked : undefined}
+                      aria-keyshortcuts={idx < 9 ? String(idx + 1) : undefined}
+                      style={{
+                        ...cardStyle,
+                        position: 'relative',
+                        padding: '1.25rem',
+                        fontWeight: 500,
+                        cursor: streaming ? 'progress' : 'pointer',
+                        fontSize: '1rem',
+                        display: 'flex',
+                        alignItems: 'center',
+                        justifyContent: 'center',
+                        textAlign: 'center',
+                        backgroundColor: picked ? theme.primary : theme.secondary,
+                        color: picked ? theme.bg : theme.text,
+                        borderRadius: multiSelect ? '50px' : '16px', // Chips in multi-select mode
+                        boxShadow: '0 4px 12px rgba(0,0,0,0.06)'
+                      }}
+                      {...hoverEffect(
+                        el => {
+                          if (streaming) return;
+                          gsap.to(el, { scale: 1.02, backgroundColor: theme.primary, color: theme.bg, duration: 0.1 });
+                        },
+                        el => {
+                          gsap.to(el, {
+                            scale: 1,
+                            backgroundColor: picked ? theme.primary : theme.secondary,
+                            color: picked ? theme.bg : theme.text,
+                            duration: 0.1
+                          });
+                        }
+                      )}
+                    >
+                      {idx < 9 && (
+                        <span aria-hidden="true" style={{ position: 'absolute', top: '0.4rem', left: '0.7rem', fontSize: '0.75rem', opacity: 0.5 }}>
+                          {idx + 1}
+                        </span>
+                      )}
+                      {option}
+                    </button>
+                  );
+                })}
               </div>
 
+              {!streaming && !isScriptedQuestion && !offlineMode && (
+                <button
+                  className="stagger-in"
+                  onClick={handleDifferentOptions}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '0.5rem',
+                    background: 'transparent',
+                    border: 'none',
+                    color: theme.text,
+                    opacity: 0.7,
+                    marginBottom: '1rem',
+                    padding: '0.5rem 1rem',
+                    fontSize: '0.95rem',
+                    fontWeight: 600,
+                    cursor: 'pointer'
+                  }}
+                >
+                  <RefreshIcon />
+                  {t.differentOptions}
+                </button>
+              )}
+
               <form
                 className="stagger-in"
                 onSubmit={handleCustomSubmit}
@@ -664,8 +2004,9 @@ const App = () => {
               >
                 <input
                   type="text"
-                  placeholder="Type to combine options or add details..."
+                  placeholder={multiSelect ? t.detailPlaceholder : t.customPlaceholder}
                   value={customInput}
+                  disabled={streaming}
                   onChange={(e) => setCustomInput(e.target.value)}
                   style={{
                     width: '100%',
@@ -684,7 +2025,8 @@ const App = () => {
                 />
                 <button
                   type="submit"
-                  aria-label="Submit"
+                  aria-label={t.submit}
+                  disabled={streaming}
                   style={{
                     position: 'absolute',
                     right: '8px',
@@ -702,71 +2044,446 @@ const App = () => {
                     justifyContent: 'center',
                     transition: 'transform 0.1s'
                   }}
-                  onMouseEnter={(e) => gsap.to(e.currentTarget, { scale: 1.1, duration: 0.1 })}
-                  onMouseLeave={(e) => gsap.to(e.currentTarget, { scale: 1, duration: 0.1 })}
+                  {...hoverScale(1.1)}
                 >
                   <ArrowRightIcon />
                 </button>
               </form>
+
+              {multiSelect && (
+                <button
+                  className="stagger-in"
+                  onClick={handleCustomSubmit}
+                  disabled={streaming || (selectedOptions.length === 0 && !customInput.trim())}
+                  style={{
+                    ...primaryBtnStyle,
+                    marginTop: '1.5rem',
+                    padding: '1rem 3rem',
+                    fontSize: '1.05rem',
+                    fontWeight: 700,
+                    cursor: 'pointer',
+                    opacity: selectedOptions.length === 0 && !customInput.trim() ? 0.5 : 1
+                  }}
+                  {...hoverScale()}
+                >
+                  {t.continueWithSelection(selectedOptions.length)}
+                </button>
+              )}
             </div>
           )}
 
+          {appState === 'loading' && (
+            <button
+              onClick={handleCancel}
+              style={{
+                background: 'transparent',
+                border: 'none',
+                color: theme.text,
+                opacity: 0.7,
+                marginTop: '1.5rem',
+                padding: '0.75rem 1.5rem',
+                fontSize: '1rem',
+                fontWeight: 600,
+                cursor: 'pointer'
+              }}
+            >
+              {t.cancel}
+            </button>
+          )}
+
           {appState === 'results' && data && (
             <div style={{ width: '100%', display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
-              <h2 className="stagger-in" style={{ fontSize: '3rem', textAlign: 'center', marginBottom: '0.5rem', fontWeight: 800 }}>
-                Perfect Picks
+              <h2 ref={headingRef} tabIndex={-1} className="stagger-in" style={{ fontSize: '3rem', textAlign: 'center', marginBottom: '0.5rem', fontWeight: 800, outline: 'none' }}>
+                {t.resultsTitle}
               </h2>
               <p className="stagger-in" style={{ marginBottom: '3rem', opacity: 0.7, fontSize: '1.2rem' }}>
-                Tap a bubble to shop.
+                {sharedView ? t.sharedResultsHint : t.resultsHint}
               </p>
 
-              <div style={{
-                width: '100%',
-                display: 'flex',
-                flexWrap: 'wrap',
-                gap: '1.5rem',
-                marginBottom: '3rem',
-                justifyContent: 'center'
-              }}>
-                {data.recommendations?.map((gift, idx) => {
-                  const retailer = RETAILERS[idx % RETAILERS.length];
-                  return (
-                    <a
-                      key={idx}
-                      href={retailer.url(gift)}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="stagger-in wiggle-bubble"
+              {!sharedView && neededIn !== null && isUrgent(neededIn) && (
+                <div role="status" className="stagger-in" style={{
+                  ...cardStyle,
+                  borderRadius: '16px',
+                  border: `2px solid ${theme.accent}`,
+                  padding: '0.75rem 1.25rem',
+                  marginTop: '-1.5rem',
+                  marginBottom: '2.5rem',
+                  textAlign: 'center',
+                  maxWidth: '500px'
+                }}>
+                  <div style={{ fontWeight: 700 }}>
+                    {t.neededBy(new Date(`${sessionOccasion.date}T00:00:00`).toLocaleDateString(locale.uiLanguage), neededIn)}
+                  </div>
+                  <div style={{ fontSize: '0.9rem', opacity: 0.8, marginTop: '0.25rem' }}>{t.neededByHint}</div>
+                </div>
+              )}
+
+              {!sharedView && (
+                <div className="stagger-in" style={{ width: '100%', display: 'flex', flexDirection: 'column', alignItems: 'center', marginTop: '-1.5rem', marginBottom: '2.5rem' }}>
+                  {editingBudget ? (
+                    <BudgetForm
+                      theme={theme}
+                      t={t}
+                      initial={budget}
+                      defaultCurrency={activeMarket.currency}
+                      submitLabel={t.budgetUpdate}
+                      skipLabel={budget ? t.budgetClear : t.cancel}
+                      onSubmit={handleBudgetRegenerate}
+                      onSkip={() => budget ? handleBudgetRegenerate(null) : setEditingBudget(false)}
+                    />
+                  ) : (
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', fontSize: '0.95rem' }}>
+                      <span style={{ ...cardStyle, borderRadius: '50px', padding: '0.4rem 1rem', fontWeight: 600 }}>
+                        {budget ? t.budgetLabel(formatBudget(budget, locale.uiLanguage)) : t.budgetNone}
+                      </span>
+                      <button
+                        onClick={() => setEditingBudget(true)}
+                        style={{
+                          background: 'transparent',
+                          border: 'none',
+                          color: theme.primary,
+                          fontWeight: 600,
+                          fontSize: '0.95rem',
+                          cursor: 'pointer',
+                          textDecoration: 'underline'
+                        }}
+                      >
+                        {budget ? t.budgetChange : t.budgetSet}
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {sharedView && sharedView.answers.length > 0 && (
+                <dl className="stagger-in" style={{ width: '100%', maxWidth: '500px', margin: '0 0 3rem 0', fontSize: '0.95rem', lineHeight: 1.5 }}>
+                  {sharedView.answers.map(({ question, answer }, idx) => (
+                    <div key={idx} style={{ display: 'flex', justifyContent: 'space-between', gap: '1rem', padding: '0.5rem 0', borderBottom: `1px solid ${theme.secondary}` }}>
+                      <dt style={{ opacity: 0.7 }}>{question}</dt>
+                      <dd style={{ margin: 0, fontWeight: 600, textAlign: 'right' }}>{answer}</dd>
+                    </div>
+                  ))}
+                </dl>
+              )}
+
+              <div onKeyDown={handleBubbleKeyDown} style={{ width: '100%' }}>
+                {groupByCategory(data.recommendations ?? []).map(({ category, items }) => (
+                  <section key={category} style={{ width: '100%', marginBottom: '2.5rem' }}>
+                    <h3 className="stagger-in" style={{ fontSize: '0.85rem', textTransform: 'uppercase', letterSpacing: '1px', opacity: 0.6, textAlign: 'center', marginBottom: '1.25rem' }}>
+                      {t.categories[category]}
+                    </h3>
+                    <div style={{
+                      width: '100%',
+                      display: 'flex',
+                      flexWrap: 'wrap',
+                      gap: '1.5rem',
+                      justifyContent: 'center'
+                    }}>
+                      {items.map((gift) => {
+                        const idx = data.recommendations.indexOf(gift);
+                        const isOpen = openRationale === idx;
+                        const starred = isShortlisted(shortlist, gift, shortlistOwner);
+                        return (
+                          <div
+                            key={idx}
+                            className="stagger-in wiggle-bubble"
+                            style={{
+                              ...cardStyle,
+                              position: 'relative',
+                              borderRadius: '50px', // Pill/Bubble shape
+                              display: 'flex',
+                              alignItems: 'center',
+                              transformOrigin: 'center center',
+                              zIndex: isOpen ? 5 : 'auto'
+                            }}
+                            {...hoverEffect(
+                              el => {
+                                setOpenRationale(idx);
+                                gsap.to(el, { scale: 1.1, backgroundColor: theme.primary, color: theme.bg, duration: 0.2 });
+                              },
+                              el => {
+                                setOpenRationale(null);
+                                gsap.to(el, { scale: 1, backgroundColor: theme.secondary, color: theme.text, duration: 0.2 });
+                              }
+                            )}
+                          >
+                            <a
+                              href={buildRetailerUrl(shopRetailers[0], gift.name)}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              style={{
+                                padding: '1.2rem 0.5rem 1.2rem 2rem',
+                                display: 'flex',
+                                alignItems: 'center',
+                                fontSize: '1.1rem',
+                                fontWeight: 500,
+                                color: 'inherit',
+                                textDecoration: 'none',
+                                cursor: 'pointer',
+                                whiteSpace: 'nowrap'
+                              }}
+                            >
+                              {gift.name}
+                              <ExternalLinkIcon />
+                            </a>
+                            <button
+                              onClick={() => handleToggleShortlist(gift)}
+                              aria-label={starred ? t.shortlistRemove(gift.name) : t.shortlistAdd(gift.name)}
+                              aria-pressed={starred}
+                              style={{
+                                background: 'transparent',
+                                border: 'none',
+                                color: 'inherit',
+                                opacity: starred ? 1 : 0.6,
+                                cursor: 'pointer',
+                                padding: '0 0.25rem',
+                                display: 'flex',
+                                alignItems: 'center'
+                              }}
+                            >
+                              <StarIcon filled={starred} />
+                            </button>
+                            <button
+                              onClick={() => setOpenRationale(isOpen ? null : idx)}
+                              aria-label={t.whyGift(gift.englishName)}
+                              aria-expanded={isOpen}
+                              style={{
+                                background: 'transparent',
+                                border: 'none',
+                                color: 'inherit',
+                                opacity: 0.6,
+                                cursor: 'pointer',
+                                padding: '0 1.2rem 0 0.25rem',
+                                display: 'flex',
+                                alignItems: 'center'
+                              }}
+                            >
+                              <InfoIcon />
+                            </button>
+                            {isOpen && (
+                              // Padding instead of margin so the pointer can cross the gap without closing it
+                              <div style={{
+                                position: 'absolute',
+                                top: '100%',
+                                left: '50%',
+                                transform: 'translateX(-50%)',
+                                paddingTop: '10px',
+                                width: '260px'
+                              }}>
+                                <div role="tooltip" style={{
+                                  backgroundColor: theme.text,
+                                  color: theme.bg,
+                                  padding: '10px 14px',
+                                  borderRadius: '12px',
+                                  fontSize: '0.85rem',
+                                  boxShadow: '0 8px 24px rgba(0,0,0,0.15)',
+                                  textAlign: 'center',
+                                  lineHeight: 1.4,
+                                  fontWeight: 500
+                                }}>
+                                  {gift.rationale}
+                                  <div style={{ marginTop: '6px', opacity: 0.7, fontSize: '0.8rem' }}>
+                                    {gift.englishName} · {formatGiftPrice(gift)}
+                                  </div>
+                                  <div style={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'center', gap: '6px', marginTop: '10px' }}>
+                                    {shopRetailers.map((retailer) => (
+                                      <a
+                                        key={retailer.id}
+                                        href={buildRetailerUrl(retailer, gift.name)}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        style={{
+                                          color: theme.bg,
+                                          border: `1px solid ${theme.bg}`,
+                                          borderRadius: '50px',
+                                          padding: '3px 10px',
+                                          fontSize: '0.8rem',
+                                          textDecoration: 'none',
+                                          whiteSpace: 'nowrap'
+                                        }}
+                                      >
+                                        {retailer.name}
+                                      </a>
+                                    ))}
+                                  </div>
+                                  {canRefine && (
+                                    <div style={{ display: 'flex', justifyContent: 'center', gap: '6px', marginTop: '8px' }}>
+                                      {[
+                                        { label: t.moreLikeThis, refinement: { kind: 'moreLike', gift } as Refinement },
+                                        { label: t.notThis, refinement: { kind: 'notThis', gift } as Refinement }
+                                      ].map(({ label, refinement }) => (
+                                        <button
+                                          key={refinement.kind}
+                                          onClick={() => handleRefine(refinement)}
+                                          style={{
+                                            background: theme.bg,
+                                            color: theme.text,
+                                            border: 'none',
+                                            borderRadius: '50px',
+                                            padding: '3px 10px',
+                                            fontSize: '0.8rem',
+                                            fontWeight: 600,
+                                            cursor: 'pointer',
+                                            whiteSpace: 'nowrap'
+                                          }}
+                                        >
+                                          {label}
+                                        </button>
+                                      ))}
+                                    </div>
+                                  )}
+                                </div>
+                              </div>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </section>
+                ))}
+              </div>
+
+              {canRefine && (
+                <div className="stagger-in" style={{ width: '100%', maxWidth: '500px', display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '0.75rem', marginBottom: '2.5rem' }}>
+                  <h3 style={{ fontSize: '0.85rem', textTransform: 'uppercase', letterSpacing: '1px', opacity: 0.6, margin: 0 }}>
+                    {t.refineHeading}
+                  </h3>
+                  <form onSubmit={handleTweakSubmit} style={{ width: '100%', display: 'flex', gap: '0.5rem' }}>
+                    <input
+                      type="text"
+                      value={customInput}
+                      onChange={(e) => setCustomInput(e.target.value)}
+                      placeholder={t.refinePlaceholder}
+                      aria-label={t.refineHeading}
                       style={{
-                        ...cardStyle,
-                        padding: '1.2rem 2rem',
-                        borderRadius: '50px', // Pill/Bubble shape
-                        display: 'flex',
-                        alignItems: 'center',
-                        fontSize: '1.1rem',
-                        fontWeight: 500,
-                        textDecoration: 'none',
-                        cursor: 'pointer',
-                        transformOrigin: 'center center',
-                        whiteSpace: 'nowrap'
+                        flex: 1,
+                        padding: '0.8rem 1.25rem',
+                        borderRadius: '50px',
+                        border: 'none',
+                        backgroundColor: theme.secondary,
+                        color: theme.text,
+                        fontSize: '1rem',
+                        outline: 'none'
                       }}
-                      onMouseEnter={(e) => {
-                        gsap.to(e.currentTarget, { scale: 1.1, backgroundColor: theme.primary, color: theme.bg, duration: 0.2 });
+                    />
+                    <button
+                      type="submit"
+                      disabled={!customInput.trim()}
+                      style={{
+                        ...primaryBtnStyle,
+                        padding: '0.8rem 1.5rem',
+                        fontSize: '1rem',
+                        fontWeight: 600,
+                        cursor: customInput.trim() ? 'pointer' : 'not-allowed',
+                        opacity: customInput.trim() ? 1 : 0.6
                       }}
-                      onMouseLeave={(e) => {
-                        gsap.to(e.currentTarget, { scale: 1, backgroundColor: theme.secondary, color: theme.text, duration: 0.2 });
+                    >
+                      {t.refineSubmit}
+                    </button>
+                  </form>
+                  <button
+                    onClick={() => handleRefine({ kind: 'showMore' })}
+                    style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: '0.5rem',
+                      background: 'transparent',
+                      border: 'none',
+                      color: theme.text,
+                      opacity: 0.8,
+                      padding: '0.5rem 1rem',
+                      fontSize: '0.95rem',
+                      fontWeight: 600,
+                      cursor: 'pointer'
+                    }}
+                  >
+                    <RefreshIcon />
+                    {t.showMore(SHOW_MORE_COUNT)}
+                  </button>
+                </div>
+              )}
+
+              {!sharedView && (
+                <div className="stagger-in" style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '0.75rem', marginBottom: '2rem' }}>
+                  <button
+                    onClick={handleShare}
+                    style={{
+                      background: 'transparent',
+                      border: `2px solid ${theme.primary}`,
+                      color: theme.text,
+                      borderRadius: '50px',
+                      padding: '0.8rem 2rem',
+                      fontSize: '1rem',
+                      fontWeight: 600,
+                      cursor: 'pointer',
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: '0.5rem'
+                    }}
+                    {...hoverScale()}
+                  >
+                    <ShareIcon />
+                    {shareStatus === 'copied' ? t.linkCopied : shareStatus === 'failed' ? t.shareFailed : t.share}
+                  </button>
+                  <button
+                    onClick={handleSaveProfile}
+                    style={{
+                      background: 'transparent',
+                      border: 'none',
+                      color: theme.text,
+                      opacity: 0.8,
+                      padding: '0.5rem 1rem',
+                      fontSize: '0.95rem',
+                      fontWeight: 600,
+                      cursor: 'pointer'
+                    }}
+                  >
+                    {activeProfile ? t.updateProfile(activeProfile.name) : t.saveProfile}
+                  </button>
+                  <ExportMenu
+                    theme={theme}
+                    t={t}
+                    onPrint={() => printHtml(buildPrintHtml(buildExportDocument(), locale.uiLanguage))}
+                    onMarkdown={() => downloadFile('gifty-ideas.md', buildMarkdown(buildExportDocument()), 'text/markdown;charset=utf-8')}
+                    onCsv={() => downloadFile('gifty-ideas.csv', buildCsv(buildExportDocument()), 'text/csv;charset=utf-8')}
+                    initialDate={sessionOccasion.date}
+                    onReminder={handleDownloadReminder}
+                  />
+                  {shortlist.length > 0 && (
+                    <button
+                      onClick={() => setShowShortlist(true)}
+                      style={{
+                        background: 'transparent',
+                        border: 'none',
+                        color: theme.text,
+                        opacity: 0.8,
+                        padding: '0.5rem 1rem',
+                        fontSize: '0.95rem',
+                        fontWeight: 600,
+                        cursor: 'pointer',
+                        display: 'flex',
+                        alignItems: 'center',
+                        gap: '0.4rem'
                       }}
                     >
-                      {gift}
-                      <ExternalLinkIcon />
-                    </a>
-                  );
-                })}
-              </div>
+                      <StarIcon size={16} />
+                      {t.shortlist(shortlist.length)}
+                    </button>
+                  )}
+                  <label style={{ fontSize: '0.9rem', opacity: 0.7, display: 'flex', alignItems: 'center', gap: '0.4rem', cursor: 'pointer' }}>
+                    <input
+                      type="checkbox"
+                      checked={shareAnswers}
+                      onChange={(e) => { setShareAnswers(e.target.checked); setShareStatus('idle'); }}
+                    />
+                    {t.includeAnswers}
+                  </label>
+                </div>
+              )}
 
               <button
                 className="stagger-in"
-                onClick={handleReset}
+                onClick={activeBatch ? handleBackToBoard : handleReset}
                 style={{
                   ...primaryBtnStyle,
                   padding: '1.2rem 3rem',
@@ -775,10 +2492,9 @@ const App = () => {
                   cursor: 'pointer',
                   letterSpacing: '0.5px'
                 }}
-                onMouseEnter={(e) => gsap.to(e.currentTarget, { scale: 1.05, duration: 0.1 })}
-                onMouseLeave={(e) => gsap.to(e.currentTarget, { scale: 1, duration: 0.1 })}
+                {...hoverScale()}
               >
-                Find Another Gift
+                {sharedView ? t.findYourOwn : activeBatch ? t.backToBoard : t.findAnother}
               </button>
             </div>
           )}
@@ -0,0 +1,280 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Plugin } from 'vite';
+import { HistoryItem } from '../types';
+import { ContentBlockedError, createGeminiProvider } from '../services/providers';
+import { StepContext, StepIntent, STEP_RESPONSE_SCHEMA, buildStepPrompt, buildSystemInstruction } from '../services/prompt';
+import { buildRepairPrompt } from '../services/validation';
+import { INTERVIEW_MODES } from '../services/interview';
+import { OCCASION_KINDS } from '../services/occasion';
+import { MARKETS, isLanguage } from '../services/i18n';
+import { CURRENCIES, validateBudget } from '../services/budget';
+
+// --- Next-step Proxy ---
+
+// Keeps the Gemini key and both prompts on the server. The browser posts
+// { history, context, intent, repair?, final } and gets back the model's raw { text };
+// everything sent to the model is built here from those checked fields.
+
+export interface ProxyOptions {
+  apiKey: string;
+  modelName?: string;
+  // Rejects bodies larger than this with 413
+  maxBodyBytes?: number;
+  // Per-IP budget: at most `requests` calls per `windowMs`
+  rateLimit?: { requests: number; windowMs: number };
+  // Read the client IP from X-Forwarded-For; only enable behind a trusted reverse proxy
+  trustProxy?: boolean;
+}
+
+const DEFAULT_MAX_BODY_BYTES = 64 * 1024;
+const DEFAULT_RATE_LIMIT = { requests: 30, windowMs: 60 * 1000 };
+const MAX_HISTORY_ITEMS = 60;
+const MAX_TEXT_LENGTH = 2000;
+const MAX_LIST_ITEMS = 100;
+const MAX_REPAIR_PROBLEMS = 20;
+
+class HttpError extends Error {
+  status: number;
+  retryAfterMs?: number;
+
+  constructor(status: number, message: string, retryAfterMs?: number) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Fixed window per IP. Returns how long the caller has to wait, 0 if allowed.
+const createRateLimiter = ({ requests, windowMs }: { requests: number; windowMs: number }) => {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  return (ip: string, now = Date.now()) => {
+    let entry = windows.get(ip);
+    if (!entry || entry.resetAt <= now) {
+      entry = { count: 0, resetAt: now + windowMs };
+      windows.set(ip, entry);
+    }
+    entry.count++;
+
+    // Drop expired windows so the map can't grow without bound
+    if (windows.size > 10000) {
+      windows.forEach((value, key) => { if (value.resetAt <= now) windows.delete(key); });
+    }
+    return entry.count > requests ? entry.resetAt - now : 0;
+  };
+};
+
+const readBody = (req: IncomingMessage, limit: number) => new Promise<string>((resolve, reject) => {
+  if (Number(req.headers['content-length'] ?? 0) > limit) {
+    reject(new HttpError(413, 'Request body too large'));
+    return;
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > limit) {
+      req.removeAllListeners('data');
+      req.resume();
+      reject(new HttpError(413, 'Request body too large'));
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  req.on('error', reject);
+});
+
+const isText = (value: unknown): value is string =>
+  typeof value === 'string' && value.length <= MAX_TEXT_LENGTH;
+
+const isTextList = (value: unknown): value is string[] =>
+  Array.isArray(value) &&
+  value.length <= MAX_LIST_ITEMS &&
+  value.every(isText);
+
+// Rebuilds the history from its checked fields only, so nothing else a client adds to an
+// item reaches the prompt. Null when any item is malformed.
+const readHistory = (value: unknown): HistoryItem[] | null => {
+  if (!Array.isArray(value) || value.length > MAX_HISTORY_ITEMS) return null;
+  const history: HistoryItem[] = [];
+  for (const item of value) {
+    if (
+      (item?.role !== 'user' && item?.role !== 'model') ||
+      !isText(item.text) ||
+      (item.selected !== undefined && !isTextList(item.selected)) ||
+      (item.detail !== undefined && !isText(item.detail))
+    ) {
+      return null;
+    }
+    history.push({
+      role: item.role,
+      text: item.text,
+      ...(item.selected !== undefined ? { selected: item.selected } : {}),
+      ...(item.detail !== undefined ? { detail: item.detail } : {})
+    });
+  }
+  return history;
+};
+
+const isRefinement = (value: any) => {
+  switch (value?.kind) {
+    case 'moreLike':
+    case 'notThis':
+      return isText(value.gift?.englishName);
+    case 'showMore':
+      return true;
+    case 'tweak':
+      return isText(value.text);
+    default:
+      return false;
+  }
+};
+
+const isIntent = (value: any): value is StepIntent => {
+  switch (value?.kind) {
+    case 'next':
+    case 'budgetChanged':
+      return true;
+    case 'different':
+      return isText(value.shown?.question) && isTextList(value.shown.options);
+    case 'refine':
+      return isRefinement(value.refinement) && isTextList(value.current);
+    default:
+      return false;
+  }
+};
+
+const isProblemList = (value: unknown): value is string[] =>
+  Array.isArray(value) &&
+  value.length > 0 &&
+  value.length <= MAX_REPAIR_PROBLEMS &&
+  value.every(isText);
+
+const isOccasion = (value: any) =>
+  (value?.kind === null || OCCASION_KINDS.includes(value?.kind)) &&
+  typeof value.inferred === 'boolean' &&
+  (value.date === null || (typeof value.date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value.date))) &&
+  (value.daysLeft === null || Number.isInteger(value.daysLeft));
+
+const isContext = (value: any): value is StepContext =>
+  Boolean(value) &&
+  INTERVIEW_MODES.includes(value.mode) &&
+  isLanguage(value.interviewLanguage) &&
+  MARKETS.some(m => m.code === value.market) &&
+  (value.budget === null || (
+    CURRENCIES.includes(value.budget?.currency) &&
+    (value.budget.min === null || typeof value.budget.min === 'number') &&
+    (value.budget.max === null || typeof value.budget.max === 'number') &&
+    validateBudget(value.budget) === null
+  )) &&
+  (value.recipient === undefined || (isTextList(value.recipient?.dislikes) && isTextList(value.recipient.pastGifts))) &&
+  (value.takenGifts === undefined || isTextList(value.takenGifts)) &&
+  (value.occasion === undefined || isOccasion(value.occasion));
+
+const clientIp = (req: IncomingMessage, trustProxy: boolean) => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustProxy && typeof forwarded === 'string') return forwarded.split(',')[0].trim();
+  return req.socket.remoteAddress ?? 'unknown';
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, retryAfterMs?: number) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  if (retryAfterMs !== undefined) {
+    res.setHeader('Retry-After', String(Math.ceil(retryAfterMs / 1000)));
+  }
+  res.end(JSON.stringify(body));
+};
+
+export const createNextStepHandler = (options: ProxyOptions) => {
+  const provider = createGeminiProvider(options.apiKey, options.modelName);
+  const checkRateLimit = createRateLimiter(options.rateLimit ?? DEFAULT_RATE_LIMIT);
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    try {
+      if (req.method !== 'POST') {
+        res.setHeader('Allow', 'POST');
+        throw new HttpError(405, 'Method not allowed');
+      }
+
+      const waitMs = checkRateLimit(clientIp(req, Boolean(options.trustProxy)));
+      if (waitMs > 0) {
+        throw new HttpError(429, 'Too many requests', waitMs);
+      }
+
+      let body: any;
+      try {
+        body = JSON.parse(await readBody(req, maxBodyBytes));
+      } catch (error) {
+        if (error instanceof HttpError) throw error;
+        throw new HttpError(400, 'Body must be JSON');
+      }
+
+      const { context, intent, repair, final } = body ?? {};
+      const history = readHistory(body?.history);
+      if (!history || !isContext(context) || !isIntent(intent) || (repair !== undefined && !isProblemList(repair))) {
+        throw new HttpError(400, 'Invalid next-step request');
+      }
+
+      const prompt = buildStepPrompt(history, context, intent);
+      const response = await provider.generateContent({
+        prompt: repair ? buildRepairPrompt(prompt, repair) : prompt,
+        systemInstruction: buildSystemInstruction(history, context, final === true, intent),
+        responseSchema: STEP_RESPONSE_SCHEMA,
+        history,
+        context,
+        intent,
+        repair,
+        final: final === true
+      });
+      sendJson(res, 200, { text: response.text ?? null });
+    } catch (error: any) {
+      if (error instanceof ContentBlockedError) {
+        sendJson(res, 422, { error: error.message, blocked: true });
+        return;
+      }
+      if (error instanceof HttpError) {
+        sendJson(res, error.status, { error: error.message }, error.retryAfterMs);
+        return;
+      }
+      console.error('Next-step proxy error:', error);
+      // Gemini API errors keep their status and message so the client can classify them;
+      // anything else is a bug here and its details stay on the server
+      if (typeof error?.status === 'number') {
+        sendJson(res, error.status, { error: String(error.message ?? 'Upstream error') });
+        return;
+      }
+      sendJson(res, 500, { error: 'Internal error' });
+    }
+  };
+};
+
+// Serves the endpoint at `<base>api/next-step` from both `vite` (dev) and `vite preview`.
+export const giftyProxy = (options: ProxyOptions): Plugin => {
+  const handler = createNextStepHandler(options);
+  let endpoint = '/api/next-step';
+
+  const middleware = (req: IncomingMessage, res: ServerResponse, next: () => void) => {
+    if (req.url?.split('?')[0] === endpoint) {
+      handler(req, res);
+    } else {
+      next();
+    }
+  };
+
+  return {
+    name: 'gifty-proxy',
+    configResolved(config) {
+      endpoint = `${config.base}api/next-step`;
+    },
+    configureServer(server) {
+      server.middlewares.use(middleware);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(middleware);
+    }
+  };
+};
@@ -0,0 +1,73 @@
+import { createServer } from 'http';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { createNextStepHandler } from './proxy';
+
+// --- Standalone Server ---
+
+// Serves the built app from `dist/` and the next-step proxy without Vite, for hosts that
+// run Node. Built with `npm run build:server` and started with `npm run serve`; reads the
+// same variables as vite.config.ts plus PORT.
+
+const BASE = import.meta.env.BASE_URL;
+const ENDPOINT = `${BASE}api/next-step`;
+const STATIC_DIR = path.resolve('dist');
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript',
+  '.css': 'text/css',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+  '.woff2': 'font/woff2'
+};
+
+const apiKey = process.env.GEMINI_API_KEY;
+if (!apiKey) {
+  console.error('GEMINI_API_KEY is not set');
+  process.exit(1);
+}
+
+const handleNextStep = createNextStepHandler({
+  apiKey,
+  modelName: process.env.GEMINI_MODEL_NAME || undefined,
+  rateLimit: process.env.PROXY_RATE_LIMIT ? { requests: Number(process.env.PROXY_RATE_LIMIT), windowMs: 60 * 1000 } : undefined,
+  trustProxy: process.env.PROXY_TRUST_FORWARDED === 'true'
+});
+
+// Unknown paths under the base fall back to index.html; nothing outside STATIC_DIR is read
+const serveStatic = async (pathname: string) => {
+  const relative = decodeURIComponent(pathname.slice(BASE.length)) || 'index.html';
+  const file = path.resolve(STATIC_DIR, relative);
+  if (!file.startsWith(STATIC_DIR + path.sep)) return null;
+  try {
+    return { body: await readFile(file), type: CONTENT_TYPES[path.extname(file)] ?? 'application/octet-stream' };
+  } catch {
+    return relative === 'index.html' ? null : serveStatic(BASE);
+  }
+};
+
+const server = createServer(async (req, res) => {
+  const pathname = (req.url ?? '/').split('?')[0];
+  if (pathname === ENDPOINT) {
+    handleNextStep(req, res);
+    return;
+  }
+
+  const file = req.method === 'GET' && pathname.startsWith(BASE) ? await serveStatic(pathname).catch(() => null) : null;
+  if (!file) {
+    res.statusCode = pathname === '/' ? 302 : 404;
+    if (pathname === '/') res.setHeader('Location', BASE);
+    res.end();
+    return;
+  }
+  res.setHeader('Content-Type', file.type);
+  res.end(file.body);
+});
+
+const port = Number(process.env.PORT) || 3000;
+server.listen(port, () => {
+  console.log(`Gifty is listening on http://localhost:${port}${BASE}`);
+});
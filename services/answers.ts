@@ -0,0 +1,22 @@
+import { HistoryItem } from '../types';
+
+// --- Answers ---
+
+export interface Answer {
+  selected: string[];
+  detail: string;
+}
+
+// "Cooking, Travel — loves Italian food"
+export const formatAnswer = ({ selected, detail }: Answer) =>
+  [selected.join(', '), detail].filter(Boolean).join(' — ');
+
+export const isEmptyAnswer = ({ selected, detail }: Answer) =>
+  selected.length === 0 && !detail;
+
+export const createUserTurn = (answer: Answer): HistoryItem => ({
+  role: 'user',
+  text: formatAnswer(answer),
+  ...(answer.selected.length > 0 ? { selected: answer.selected } : {}),
+  ...(answer.detail ? { detail: answer.detail } : {})
+});
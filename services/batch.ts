@@ -0,0 +1,88 @@
+import { InterviewMode, INTERVIEW_SCRIPTS } from './interview';
+import { SavedSession } from './sessions';
+import { SessionOccasion, getOccasionKind } from './occasion';
+
+// --- Batch Sessions ---
+
+// Several recipients shopped for together. Every member gets a short interview of their
+// own, stored as a normal SavedSession; what the group shares is asked once here.
+
+const STORAGE_KEY = 'gifty.batches';
+const MAX_BATCHES = 10;
+
+export const BATCH_MODE: InterviewMode = 'quick';
+
+export interface BatchMember {
+  name: string;
+  // Id of the member's SavedSession, fixed up front so the board can find it
+  sessionId: string;
+  profileId?: string;
+}
+
+export interface BatchSession {
+  id: string;
+  createdAt: number;
+  // Answer to the shared occasion question, as picked
+  occasion: string;
+  // When the gifts are needed, as YYYY-MM-DD
+  date?: string | null;
+  members: BatchMember[];
+}
+
+export type MemberProgress =
+  | { status: 'notStarted' }
+  | { status: 'inProgress'; question: number; total: number }
+  | { status: 'done'; ideas: number };
+
+export const loadBatches = (): BatchSession[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed.filter(b => typeof b?.id === 'string' && Array.isArray(b.members)) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeBatches = (batches: BatchSession[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(batches.slice(0, MAX_BATCHES)));
+  } catch (error) {
+    console.warn("Could not persist batch:", error);
+  }
+};
+
+// Upserts the batch and moves it to the front (newest first).
+export const saveBatch = (batch: BatchSession) => {
+  const others = loadBatches().filter(b => b.id !== batch.id);
+  writeBatches([batch, ...others]);
+};
+
+export const deleteBatch = (id: string) => {
+  writeBatches(loadBatches().filter(b => b.id !== id));
+};
+
+// The shared occasion, given to every member's session as a field rather than an answer,
+// so it doesn't use up one of their few questions.
+export const getSharedOccasion = (batch: BatchSession): SessionOccasion => ({
+  kind: getOccasionKind(batch.occasion),
+  date: batch.date ?? null
+});
+
+export const getMemberProgress = (session: SavedSession | undefined): MemberProgress => {
+  if (!session) return { status: 'notStarted' };
+  if (session.data.isFinal) return { status: 'done', ideas: session.data.recommendations.length };
+  return {
+    status: 'inProgress',
+    question: session.history.length / 2 + 1,
+    total: INTERVIEW_SCRIPTS[session.mode].maxQuestions
+  };
+};
+
+// English names of everything recommended to the other members, so nobody gets the same gift.
+export const getTakenGifts = (batch: BatchSession, sessions: SavedSession[], exceptSessionId: string | null) =>
+  batch.members
+    .filter(member => member.sessionId !== exceptSessionId)
+    .flatMap(member => {
+      const session = sessions.find(s => s.id === member.sessionId);
+      return session?.data.isFinal ? session.data.recommendations.map(r => r.englishName) : [];
+    });
@@ -0,0 +1,39 @@
+import { Budget, Money } from '../types';
+
+// --- Budget Helpers ---
+
+export const CURRENCIES = ['TRY', 'EUR', 'USD', 'GBP'];
+
+export const formatMoney = ({ amount, currency }: Money, language: string) => {
+  try {
+    return new Intl.NumberFormat(language, { style: 'currency', currency, maximumFractionDigits: 0 }).format(amount);
+  } catch {
+    // Unknown currency code from the model
+    return `${Math.round(amount)} ${currency}`;
+  }
+};
+
+// "₺500 – ₺1,000", "≤ €50" or "≥ $200"
+export const formatBudget = ({ min, max, currency }: Budget, language: string) => {
+  const fmt = (amount: number) => formatMoney({ amount, currency }, language);
+  if (min !== null && max !== null) return `${fmt(min)} – ${fmt(max)}`;
+  if (max !== null) return `≤ ${fmt(max)}`;
+  if (min !== null) return `≥ ${fmt(min)}`;
+  return currency;
+};
+
+// Phrasing for the model instructions, always in English.
+export const describeBudgetForPrompt = ({ min, max, currency }: Budget) => {
+  if (min !== null && max !== null) return `between ${min} and ${max} ${currency}`;
+  if (max !== null) return `at most ${max} ${currency}`;
+  return `at least ${min} ${currency}`;
+};
+
+export type BudgetError = 'empty' | 'negative' | 'reversed';
+
+export const validateBudget = ({ min, max }: Budget): BudgetError | null => {
+  if (min === null && max === null) return 'empty';
+  if ((min !== null && min < 0) || (max !== null && max < 0)) return 'negative';
+  if (min !== null && max !== null && min > max) return 'reversed';
+  return null;
+};
@@ -0,0 +1,60 @@
+// --- Cancellation & Timeouts ---
+
+export class RequestTimeoutError extends Error {
+  constructor(ms: number) {
+    super(`Model request timed out after ${ms}ms`);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+// Rejection reason used when the user (or a newer request) cancels.
+export const createAbortError = () => new DOMException('The request was cancelled.', 'AbortError');
+
+// Resolves after `ms`, or rejects with the abort reason as soon as `signal` aborts.
+export const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(signal.reason);
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// A signal that aborts with `parent`, or with a RequestTimeoutError after `ms`.
+// Call `dispose` when the request settles so the timer and listener don't leak.
+export const withTimeout = (parent: AbortSignal | undefined, ms: number) => {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(parent!.reason);
+  if (parent?.aborted) {
+    onAbort();
+  } else {
+    parent?.addEventListener('abort', onAbort, { once: true });
+  }
+  const timer = setTimeout(() => controller.abort(new RequestTimeoutError(ms)), ms);
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onAbort);
+    }
+  };
+};
+
+// Settles with `promise`, unless `signal` aborts first. Guards against providers that ignore the signal.
+export const abortable = <T>(promise: Promise<T>, signal: AbortSignal) => new Promise<T>((resolve, reject) => {
+  if (signal.aborted) {
+    reject(signal.reason);
+    return;
+  }
+  const onAbort = () => reject(signal.reason);
+  signal.addEventListener('abort', onAbort, { once: true });
+  promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+});
@@ -0,0 +1,432 @@
+import { GiftCategory, PriceTier } from '../types';
+import { Language } from './i18n';
+
+// --- Offline Gift Catalog ---
+
+export type AgeBand = 'kid' | 'teen' | 'young' | 'adult' | 'senior';
+
+// A curated gift the offline engine can recommend without a model. `tags` use the
+// vocabulary of the offline question tree (see services/offline.ts).
+export interface CatalogGift {
+  id: string;
+  // Product name per market language, used as the retailer search query
+  name: Record<Language, string>;
+  rationale: Record<Language, string>;
+  category: GiftCategory;
+  priceTier: PriceTier;
+  // Typical price in euros, converted for budgets in other currencies
+  priceEur: number;
+  tags: string[];
+  // Age bands it suits; any age when omitted
+  ages?: AgeBand[];
+}
+
+export const GIFT_CATALOG: CatalogGift[] = [
+  {
+    id: 'wireless-headphones',
+    name: { en: "Wireless Headphones", tr: "Kablosuz Kulaklık", de: "Kabellose Kopfhörer" },
+    rationale: {
+      en: "Great for someone who always has music on.",
+      tr: "Müziği hiç kapatmayan biri için harika.",
+      de: "Ideal für alle, bei denen immer Musik läuft."
+    },
+    category: 'tech', priceTier: 'premium', priceEur: 120,
+    tags: ['music', 'tech', 'travel', 'fitness', 'birthday', 'graduation'],
+    ages: ['teen', 'young', 'adult']
+  },
+  {
+    id: 'smart-speaker',
+    name: { en: "Smart Speaker", tr: "Akıllı Hoparlör", de: "Smarter Lautsprecher" },
+    rationale: {
+      en: "Music, timers and answers for a gadget lover.",
+      tr: "Teknoloji meraklısına müzik, zamanlayıcı ve sesli asistan.",
+      de: "Musik, Timer und Antworten für Technikfans."
+    },
+    category: 'tech', priceTier: 'mid', priceEur: 60,
+    tags: ['tech', 'music', 'housewarming', 'cozy'],
+    ages: ['teen', 'young', 'adult', 'senior']
+  },
+  {
+    id: 'fitness-tracker',
+    name: { en: "Fitness Tracker", tr: "Akıllı Bileklik", de: "Fitness-Tracker" },
+    rationale: {
+      en: "Keeps an active lifestyle on track.",
+      tr: "Aktif bir yaşamı takip etmeyi kolaylaştırır.",
+      de: "Behält einen aktiven Alltag im Blick."
+    },
+    category: 'tech', priceTier: 'mid', priceEur: 50,
+    tags: ['fitness', 'tech', 'adventurous', 'practical', 'newyear'],
+    ages: ['teen', 'young', 'adult', 'senior']
+  },
+  {
+    id: 'e-reader',
+    name: { en: "E-Reader", tr: "E-Kitap Okuyucu", de: "E-Book-Reader" },
+    rationale: {
+      en: "A whole library in one light device for a keen reader.",
+      tr: "Kitap kurdu için hafif bir cihazda koca bir kütüphane.",
+      de: "Eine ganze Bibliothek in einem leichten Gerät für Leseratten."
+    },
+    category: 'tech', priceTier: 'premium', priceEur: 130,
+    tags: ['reading', 'travel', 'minimalist', 'tech', 'graduation'],
+    ages: ['teen', 'young', 'adult', 'senior']
+  },
+  {
+    id: 'bestseller-novel',
+    name: { en: "Bestselling Novel", tr: "Çok Satan Roman", de: "Bestseller-Roman" },
+    rationale: {
+      en: "A simple, thoughtful pick for a book lover.",
+      tr: "Kitapsever için sade ve düşünceli bir seçim.",
+      de: "Eine einfache, aufmerksame Wahl für Bücherfans."
+    },
+    category: 'books', priceTier: 'budget', priceEur: 15,
+    tags: ['reading', 'cozy', 'thanks', 'colleague', 'neighbor', 'any'],
+    ages: ['teen', 'young', 'adult', 'senior']
+  },
+  {
+    id: 'leather-journal',
+    name: { en: "Leather Journal", tr: "Deri Defter", de: "Ledernotizbuch" },
+    rationale: {
+      en: "Perfect for a creative, sentimental soul.",
+      tr: "Yaratıcı ve duygusal biri için birebir.",
+      de: "Perfekt für kreative, gefühlvolle Menschen."
+    },
+    category: 'books', priceTier: 'budget', priceEur: 25,
+    tags: ['creative', 'sentimental', 'reading', 'travel', 'graduation', 'thanks'],
+    ages: ['teen', 'young', 'adult', 'senior']
+  },
+  {
+    id: 'cookbook',
+    name: { en: "Cookbook", tr: "Yemek Kitabı", de: "Kochbuch" },
+    rationale: {
+      en: "New recipes for someone who loves to cook.",
+      tr: "Yemek yapmayı seven biri için yeni tarifler.",
+      de: "Neue Rezepte für alle, die gern kochen."
+    },
+    category: 'books', priceTier: 'budget', priceEur: 25,
+    tags: ['cooking', 'housewarming', 'practical', 'wedding'],
+    ages: ['young', 'adult', 'senior']
+  },
+  {
+    id: 'chef-knife',
+    name: { en: "Chef's Knife", tr: "Şef Bıçağı", de: "Kochmesser" },
+    rationale: {
+      en: "A tool a home cook will reach for every day.",
+      tr: "Mutfağı seven birinin her gün kullanacağı bir alet.",
+      de: "Ein Werkzeug, das Hobbyköche täglich nutzen."
+    },
+    category: 'home', priceTier: 'premium', priceEur: 90,
+    tags: ['cooking', 'practical', 'housewarming', 'wedding', 'partner'],
+    ages: ['young', 'adult', 'senior']
+  },
+  {
+    id: 'french-press',
+    name: { en: "French Press Coffee Maker", tr: "French Press Kahve Makinesi", de: "French-Press-Kaffeebereiter" },
+    rationale: {
+      en: "Turns every morning into a small ritual.",
+      tr: "Her sabahı küçük bir ritüele dönüştürür.",
+      de: "Macht jeden Morgen zu einem kleinen Ritual."
+    },
+    category: 'home', priceTier: 'budget', priceEur: 30,
+    tags: ['cozy', 'cooking', 'housewarming', 'colleague', 'thanks', 'minimalist'],
+    ages: ['young', 'adult', 'senior']
+  },
+  {
+    id: 'scented-candle-set',
+    name: { en: "Scented Candle Set", tr: "Kokulu Mum Seti", de: "Duftkerzen-Set" },
+    rationale: {
+      en: "Instant coziness for a homebody.",
+      tr: "Ev kuşu biri için anında sıcak bir atmosfer.",
+      de: "Sofortige Gemütlichkeit für Stubenhocker."
+    },
+    category: 'home', priceTier: 'budget', priceEur: 25,
+    tags: ['cozy', 'sentimental', 'housewarming', 'thanks', 'neighbor', 'colleague', 'any'],
+    ages: ['young', 'adult', 'senior']
+  },
+  {
+    id: 'aromatherapy-set',
+    name: { en: "Aromatherapy Set", tr: "Aromaterapi Seti", de: "Aromatherapie-Set" },
+    rationale: {
+      en: "A calming treat to unwind after long days.",
+      tr: "Uzun günlerin ardından rahatlatan bir ikram.",
+      de: "Eine beruhigende Auszeit nach langen Tagen."
+    },
+    category: 'wellness', priceTier: 'mid', priceEur: 40,
+    tags: ['cozy', 'sentimental', 'parent', 'partner', 'birthday', 'thanks'],
+    ages: ['young', 'adult', 'senior']
+  },
+  {
+    id: 'spa-day',
+    name: { en: "Spa Day Voucher", tr: "Spa Günü Hediye Çeki", de: "Wellness-Tag-Gutschein" },
+    rationale: {
+      en: "A day of pure relaxation they wouldn't book themselves.",
+      tr: "Kendisinin asla ayırmayacağı bir rahatlama günü.",
+      de: "Ein Tag Entspannung, den sie sich selbst nie gönnen würden."
+    },
+    category: 'experience', priceTier: 'premium', priceEur: 110,
+    tags: ['cozy', 'partner', 'parent', 'anniversary', 'birthday', 'sentimental'],
+    ages: ['young', 'adult', 'senior']
+  },
+  {
+    id: 'cooking-class',
+    name: { en: "Cooking Class", tr: "Yemek Atölyesi", de: "Kochkurs" },
+    rationale: {
+      en: "A hands-on experience for a food lover.",
+      tr: "Yemek tutkunu için uygulamalı bir deneyim.",
+      de: "Ein Erlebnis zum Mitmachen für Genießer."
+    },
+    category: 'experience', priceTier: 'mid', priceEur: 70,
+    tags: ['cooking', 'social', 'adventurous', 'partner', 'anniversary'],
+    ages: ['young', 'adult', 'senior']
+  },
+  {
+    id: 'concert-tickets',
+    name: { en: "Concert Tickets", tr: "Konser Bileti", de: "Konzertkarten" },
+    rationale: {
+      en: "A night out they'll remember, built around their music.",
+      tr: "Sevdiği müzikle unutulmaz bir gece.",
+      de: "Ein unvergesslicher Abend mit ihrer Lieblingsmusik."
+    },
+    category: 'experience', priceTier: 'premium', priceEur: 90,
+    tags: ['music', 'social', 'adventurous', 'partner', 'friend', 'birthday', 'anniversary'],
+    ages: ['teen', 'young', 'adult']
+  },
+  {
+    id: 'weekend-getaway',
+    name: { en: "Weekend Getaway", tr: "Hafta Sonu Kaçamağı", de: "Wochenendtrip" },
+    rationale: {
+      en: "A short escape for someone who lives to travel.",
+      tr: "Seyahat tutkunu için kısa bir kaçamak.",
+      de: "Eine kleine Auszeit für Reiselustige."
+    },
+    category: 'experience', priceTier: 'luxury', priceEur: 350,
+    tags: ['travel', 'adventurous', 'partner', 'anniversary', 'wedding'],
+    ages: ['young', 'adult', 'senior']
+  },
+  {
+    id: 'travel-backpack',
+    name: { en: "Travel Backpack", tr: "Seyahat Sırt Çantası", de: "Reiserucksack" },
+    rationale: {
+      en: "Ready for the next adventure, wherever it goes.",
+      tr: "Bir sonraki maceraya hazır, nereye olursa.",
+      de: "Bereit für das nächste Abenteuer, wohin es auch geht."
+    },
+    category: 'fashion', priceTier: 'mid', priceEur: 70,
+    tags: ['travel', 'adventurous', 'practical', 'graduation', 'fitness'],
+    ages: ['teen', 'young', 'adult']
+  },
+  {
+    id: 'scarf',
+    name: { en: "Cashmere Scarf", tr: "Kaşmir Atkı", de: "Kaschmirschal" },
+    rationale: {
+      en: "A soft, elegant piece for someone with style.",
+      tr: "Şıklığına önem veren biri için yumuşak ve zarif bir parça.",
+      de: "Ein weiches, elegantes Stück für Stilbewusste."
+    },
+    category: 'fashion', priceTier: 'premium', priceEur: 90,
+    tags: ['fashion', 'minimalist', 'parent', 'partner', 'grandparent', 'newyear', 'holiday'],
+    ages: ['young', 'adult', 'senior']
+  },
+  {
+    id: 'minimalist-watch',
+    name: { en: "Minimalist Watch", tr: "Minimalist Kol Saati", de: "Minimalistische Armbanduhr" },
+    rationale: {
+      en: "Clean design for someone who likes less but better.",
+      tr: "Azın ama iyinin peşindeki biri için sade tasarım.",
+      de: "Klares Design für alle, die weniger, aber Besseres mögen."
+    },
+    category: 'fashion', priceTier: 'premium', priceEur: 120,
+    tags: ['minimalist', 'fashion', 'graduation', 'partner', 'anniversary'],
+    ages: ['teen', 'young', 'adult']
+  },
+  {
+    id: 'board-game',
+    name: { en: "Party Board Game", tr: "Kutu Oyunu", de: "Partyspiel" },
+    rationale: {
+      en: "Brings friends and family around the table.",
+      tr: "Arkadaşları ve aileyi masa başında buluşturur.",
+      de: "Bringt Freunde und Familie an einen Tisch."
+    },
+    category: 'hobby', priceTier: 'budget', priceEur: 30,
+    tags: ['gaming', 'social', 'friend', 'sibling', 'newyear', 'holiday', 'housewarming'],
+    ages: ['kid', 'teen', 'young', 'adult']
+  },
+  {
+    id: 'game-controller',
+    name: { en: "Wireless Game Controller", tr: "Kablosuz Oyun Kolu", de: "Kabelloser Controller" },
+    rationale: {
+      en: "An upgrade a gamer will use every session.",
+      tr: "Oyun tutkununun her oturumda kullanacağı bir yükseltme.",
+      de: "Ein Upgrade, das Gamer bei jeder Runde nutzen."
+    },
+    category: 'tech', priceTier: 'mid', priceEur: 60,
+    tags: ['gaming', 'tech', 'sibling', 'friend', 'birthday'],
+    ages: ['kid', 'teen', 'young', 'adult']
+  },
+  {
+    id: 'garden-tool-set',
+    name: { en: "Garden Tool Set", tr: "Bahçe Aleti Seti", de: "Gartenwerkzeug-Set" },
+    rationale: {
+      en: "Made for weekends spent in the garden.",
+      tr: "Bahçede geçen hafta sonları için.",
+      de: "Gemacht für Wochenenden im Garten."
+    },
+    category: 'hobby', priceTier: 'mid', priceEur: 45,
+    tags: ['gardening', 'practical', 'parent', 'grandparent', 'housewarming'],
+    ages: ['adult', 'senior']
+  },
+  {
+    id: 'herb-kit',
+    name: { en: "Indoor Herb Garden Kit", tr: "Ev İçi Aromatik Bitki Seti", de: "Kräutergarten-Set für drinnen" },
+    rationale: {
+      en: "Fresh herbs on the windowsill for a green thumb or a cook.",
+      tr: "Bahçe ya da mutfak meraklısına pencere önünde taze otlar.",
+      de: "Frische Kräuter auf der Fensterbank für Gärtner und Köche."
+    },
+    category: 'hobby', priceTier: 'budget', priceEur: 30,
+    tags: ['gardening', 'cooking', 'housewarming', 'colleague', 'neighbor', 'thanks'],
+    ages: ['young', 'adult', 'senior']
+  },
+  {
+    id: 'watercolor-set',
+    name: { en: "Watercolor Paint Set", tr: "Suluboya Seti", de: "Aquarellfarben-Set" },
+    rationale: {
+      en: "Everything a creative mind needs to start painting.",
+      tr: "Yaratıcı bir ruhun resme başlaması için gereken her şey.",
+      de: "Alles, was kreative Köpfe zum Malen brauchen."
+    },
+    category: 'hobby', priceTier: 'mid', priceEur: 40,
+    tags: ['art', 'creative', 'cozy', 'birthday'],
+    ages: ['kid', 'teen', 'young', 'adult', 'senior']
+  },
+  {
+    id: 'photo-book',
+    name: { en: "Personalized Photo Book", tr: "Kişiye Özel Fotoğraf Albümü", de: "Personalisiertes Fotobuch" },
+    rationale: {
+      en: "Shared memories, printed and kept for years.",
+      tr: "Ortak anılar, basılı ve yıllarca saklanacak.",
+      de: "Gemeinsame Erinnerungen, gedruckt und für Jahre bewahrt."
+    },
+    category: 'other', priceTier: 'mid', priceEur: 40,
+    tags: ['sentimental', 'partner', 'parent', 'grandparent', 'anniversary', 'wedding', 'baby'],
+    ages: ['young', 'adult', 'senior']
+  },
+  {
+    id: 'gourmet-basket',
+    name: { en: "Gourmet Gift Basket", tr: "Gurme Hediye Sepeti", de: "Feinkost-Präsentkorb" },
+    rationale: {
+      en: "A safe, generous choice to share and enjoy.",
+      tr: "Paylaşmak ve keyif almak için cömert, garantili bir seçim.",
+      de: "Eine sichere, großzügige Wahl zum Teilen und Genießen."
+    },
+    category: 'food', priceTier: 'mid', priceEur: 50,
+    tags: ['cooking', 'social', 'colleague', 'neighbor', 'thanks', 'holiday', 'newyear', 'housewarming', 'any'],
+    ages: ['young', 'adult', 'senior']
+  },
+  {
+    id: 'baby-blanket',
+    name: { en: "Organic Baby Blanket", tr: "Organik Bebek Battaniyesi", de: "Bio-Babydecke" },
+    rationale: {
+      en: "Soft and practical for the newest family member.",
+      tr: "Ailenin en yeni üyesi için yumuşak ve kullanışlı.",
+      de: "Weich und praktisch für das neueste Familienmitglied."
+    },
+    category: 'kids', priceTier: 'budget', priceEur: 35,
+    tags: ['baby', 'practical', 'sentimental']
+  },
+  {
+    id: 'building-blocks',
+    name: { en: "Building Blocks Set", tr: "Yapı Blokları Seti", de: "Bausteine-Set" },
+    rationale: {
+      en: "Hours of building for a curious young mind.",
+      tr: "Meraklı küçük bir zihin için saatlerce inşa keyfi.",
+      de: "Stundenlanges Bauen für neugierige Köpfe."
+    },
+    category: 'kids', priceTier: 'mid', priceEur: 45,
+    tags: ['building', 'creative', 'science', 'child', 'birthday', 'holiday'],
+    ages: ['kid']
+  },
+  {
+    id: 'science-kit',
+    name: { en: "Kids Science Kit", tr: "Çocuk Bilim Seti", de: "Experimentierkasten für Kinder" },
+    rationale: {
+      en: "Experiments that turn curiosity into discovery.",
+      tr: "Merakı keşfe dönüştüren deneyler.",
+      de: "Experimente, die Neugier in Entdeckungen verwandeln."
+    },
+    category: 'kids', priceTier: 'mid', priceEur: 35,
+    tags: ['science', 'tech', 'child', 'birthday'],
+    ages: ['kid', 'teen']
+  },
+  {
+    id: 'plush-animal',
+    name: { en: "Plush Animal", tr: "Peluş Oyuncak", de: "Plüschtier" },
+    rationale: {
+      en: "A cuddly companion for an animal lover.",
+      tr: "Hayvansever bir çocuk için sevimli bir arkadaş.",
+      de: "Ein kuscheliger Begleiter für kleine Tierfreunde."
+    },
+    category: 'kids', priceTier: 'budget', priceEur: 20,
+    tags: ['animals', 'pretend', 'child', 'baby', 'sentimental'],
+    ages: ['kid']
+  },
+  {
+    id: 'kids-art-easel',
+    name: { en: "Kids Art Easel", tr: "Çocuk Resim Sehpası", de: "Kinder-Staffelei" },
+    rationale: {
+      en: "A place to create for a little artist.",
+      tr: "Küçük bir ressam için yaratma alanı.",
+      de: "Ein Platz zum Gestalten für kleine Künstler."
+    },
+    category: 'kids', priceTier: 'mid', priceEur: 55,
+    tags: ['art', 'creative', 'child', 'birthday'],
+    ages: ['kid']
+  },
+  {
+    id: 'kids-scooter',
+    name: { en: "Kids Scooter", tr: "Çocuk Scooter", de: "Kinderroller" },
+    rationale: {
+      en: "Outdoor fun for an energetic kid.",
+      tr: "Enerjik bir çocuk için açık hava eğlencesi.",
+      de: "Draußen-Spaß für aktive Kinder."
+    },
+    category: 'kids', priceTier: 'mid', priceEur: 60,
+    tags: ['outdoors', 'adventurous', 'fitness', 'child', 'birthday'],
+    ages: ['kid']
+  },
+  {
+    id: 'kids-dress-up',
+    name: { en: "Dress-Up Costume Set", tr: "Kostüm Seti", de: "Verkleidungsset" },
+    rationale: {
+      en: "Endless make-believe for a playful imagination.",
+      tr: "Oyunbaz bir hayal gücü için sonsuz rol oyunu.",
+      de: "Endloses Rollenspiel für verspielte Fantasie."
+    },
+    category: 'kids', priceTier: 'budget', priceEur: 30,
+    tags: ['pretend', 'creative', 'social', 'child'],
+    ages: ['kid']
+  },
+  {
+    id: 'kids-music-instrument',
+    name: { en: "Kids Keyboard", tr: "Çocuk Org Klavyesi", de: "Kinder-Keyboard" },
+    rationale: {
+      en: "A first instrument for a budding musician.",
+      tr: "Müziğe ilgi duyan bir çocuk için ilk enstrüman.",
+      de: "Ein erstes Instrument für kleine Musiker."
+    },
+    category: 'kids', priceTier: 'mid', priceEur: 50,
+    tags: ['music', 'creative', 'child', 'birthday'],
+    ages: ['kid']
+  },
+  {
+    id: 'picture-books',
+    name: { en: "Illustrated Children's Books", tr: "Resimli Çocuk Kitapları", de: "Bilderbücher" },
+    rationale: {
+      en: "Stories to read together at bedtime.",
+      tr: "Uyku öncesi birlikte okunacak hikâyeler.",
+      de: "Geschichten zum gemeinsamen Lesen vor dem Schlafen."
+    },
+    category: 'books', priceTier: 'budget', priceEur: 20,
+    tags: ['reading', 'animals', 'child', 'baby', 'cozy'],
+    ages: ['kid']
+  }
+];
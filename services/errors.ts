@@ -0,0 +1,80 @@
+import { ContentBlockedError } from './providers';
+import { RequestTimeoutError } from './cancellation';
+import { InvalidResponseError } from './validation';
+
+// --- Error Taxonomy ---
+
+export type ErrorKind =
+  | 'invalidKey'
+  | 'quota'
+  | 'rateLimited'
+  | 'safety'
+  | 'offline'
+  | 'timeout'
+  | 'malformed'
+  | 'unknown';
+
+export interface ClassifiedError {
+  kind: ErrorKind;
+  // Server hint for when to try again, if it sent one
+  retryAfterMs?: number;
+}
+
+// Longest server hint we wait out silently; anything longer goes to the error screen countdown.
+export const MAX_SILENT_RETRY_MS = 10000;
+
+// A 429 that asks to wait longer than this (or doesn't say) is a spent quota rather than
+// a per-minute limit. Gemini says "quota" for both, so the word alone proves nothing.
+const MAX_RATE_LIMIT_HINT_MS = 60 * 1000;
+
+// Markers only a spent quota carries: OpenAI's error code, billing, Gemini's daily quota ids
+const QUOTA_EXHAUSTED = /insufficient_quota|billing|PerDay/i;
+
+// Gemini embeds RetryInfo in the error message ("retryDelay": "37s"); OpenAI-compatible
+// providers send a Retry-After header, which ProviderError carries as `retryAfterMs`.
+const readRetryAfter = (error: any): number | undefined => {
+  if (typeof error?.retryAfterMs === 'number') return error.retryAfterMs;
+  const match = /"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/.exec(String(error?.message ?? ''));
+  return match ? Math.ceil(Number(match[1]) * 1000) : undefined;
+};
+
+const statusOf = (error: any): number | undefined => {
+  const status = error?.status ?? error?.code;
+  return typeof status === 'number' ? status : undefined;
+};
+
+export const classifyError = (error: any): ClassifiedError => {
+  const status = statusOf(error);
+  const message = String(error?.message ?? '');
+
+  if (error instanceof RequestTimeoutError) return { kind: 'timeout' };
+  if (error instanceof InvalidResponseError) return { kind: 'malformed' };
+  if (error instanceof ContentBlockedError) return { kind: 'safety' };
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return { kind: 'offline' };
+  // fetch rejects with a bare TypeError when the network is unreachable
+  if (error instanceof TypeError && /fetch|network/i.test(message)) return { kind: 'offline' };
+  if (status === 401 || status === 403 || /api key (not valid|missing|invalid)|invalid api key|API_KEY_INVALID/i.test(message)) {
+    return { kind: 'invalidKey' };
+  }
+  if (status === 429) {
+    const retryAfterMs = readRetryAfter(error);
+    const exhausted = QUOTA_EXHAUSTED.test(message) ||
+      (/quota/i.test(message) && (retryAfterMs === undefined || retryAfterMs > MAX_RATE_LIMIT_HINT_MS));
+    return { kind: exhausted ? 'quota' : 'rateLimited', retryAfterMs };
+  }
+  if (status === 503) {
+    return { kind: 'rateLimited', retryAfterMs: readRetryAfter(error) };
+  }
+  return { kind: 'unknown' };
+};
+
+// Only transient overload is worth retrying behind the spinner.
+export const isRetryable = ({ kind, retryAfterMs }: ClassifiedError) =>
+  kind === 'rateLimited' && (retryAfterMs === undefined || retryAfterMs <= MAX_SILENT_RETRY_MS);
+
+// Exponential backoff with jitter, unless the server said how long to wait.
+export const getRetryDelay = ({ retryAfterMs }: ClassifiedError, attempt: number, baseMs = 1000) => {
+  if (retryAfterMs !== undefined) return retryAfterMs;
+  const ceiling = baseMs * 2 ** attempt;
+  return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+};
@@ -0,0 +1,221 @@
+import { SharedAnswer } from './share';
+
+// --- Result Exports ---
+
+// Everything here runs in the browser; results never leave the device.
+
+export interface ExportLink {
+  store: string;
+  url: string;
+}
+
+// A recommendation as it is shown on screen: labels already localized and formatted.
+export interface ExportItem {
+  name: string;
+  englishName: string;
+  category: string;
+  price: string;
+  rationale: string;
+  links: ExportLink[];
+}
+
+// Section and column names, in the UI language
+export interface ExportLabels {
+  answers: string;
+  recommendations: string;
+  gift: string;
+  englishName: string;
+  category: string;
+  price: string;
+  rationale: string;
+  stores: string;
+}
+
+export interface ExportDocument {
+  title: string;
+  answers: SharedAnswer[];
+  items: ExportItem[];
+  labels: ExportLabels;
+}
+
+// --- Markdown ---
+
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_[\]#|<>])/g, '\\$1');
+
+export const buildMarkdown = ({ title, answers, items, labels }: ExportDocument) => {
+  const lines = [`# ${escapeMarkdown(title)}`, ''];
+  if (answers.length > 0) {
+    lines.push(`## ${labels.answers}`, '');
+    answers.forEach(({ question, answer }) => lines.push(`- **${escapeMarkdown(question)}** ${escapeMarkdown(answer)}`));
+    lines.push('');
+  }
+  lines.push(`## ${labels.recommendations}`, '');
+  items.forEach(item => {
+    lines.push(`### ${escapeMarkdown(item.name)}`, '');
+    if (item.englishName !== item.name) lines.push(`- ${labels.englishName}: ${escapeMarkdown(item.englishName)}`);
+    lines.push(`- ${labels.category}: ${escapeMarkdown(item.category)}`);
+    lines.push(`- ${labels.price}: ${escapeMarkdown(item.price)}`);
+    lines.push(`- ${labels.rationale}: ${escapeMarkdown(item.rationale)}`);
+    if (item.links.length > 0) {
+      lines.push(`- ${labels.stores}: ${item.links.map(link => `[${escapeMarkdown(link.store)}](${link.url})`).join(' · ')}`);
+    }
+    lines.push('');
+  });
+  return lines.join('\n');
+};
+
+// --- CSV ---
+
+// Quotes fields that need it, and defuses cells a spreadsheet would run as a formula.
+const csvField = (value: string) => {
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+// One row per recommendation, one column per store. Starts with a BOM so spreadsheet
+// apps read it as UTF-8.
+export const buildCsv = ({ items, labels }: ExportDocument) => {
+  const stores = Array.from(new Set(items.flatMap(item => item.links.map(link => link.store))));
+  const header = [labels.gift, labels.englishName, labels.category, labels.price, labels.rationale, ...stores];
+  const rows = items.map(item => [
+    item.name,
+    item.englishName,
+    item.category,
+    item.price,
+    item.rationale,
+    ...stores.map(store => item.links.find(link => link.store === store)?.url ?? '')
+  ]);
+  return '\uFEFF' + [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+};
+
+// --- Printable Page ---
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// A plain, self-contained page for printing; links are spelled out since paper can't be clicked.
+export const buildPrintHtml = ({ title, answers, items, labels }: ExportDocument, lang: string) => `<!DOCTYPE html>
+<html lang="${escapeHtml(lang)}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #111; margin: 2rem; line-height: 1.45; }
+  h1 { margin: 0 0 1.5rem; }
+  h2 { font-size: 1.1rem; text-transform: uppercase; letter-spacing: 1px; border-bottom: 1px solid #ccc; padding-bottom: 0.25rem; }
+  dt { font-weight: 600; }
+  dd { margin: 0 0 0.6rem; }
+  article { break-inside: avoid; margin-bottom: 1.25rem; }
+  h3 { margin: 0 0 0.25rem; }
+  .meta { color: #555; font-size: 0.9rem; }
+  ul { padding-left: 1.25rem; margin: 0.4rem 0 0; font-size: 0.85rem; }
+  a { color: inherit; word-break: break-all; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+${answers.length > 0 ? `<h2>${escapeHtml(labels.answers)}</h2>
+<dl>
+${answers.map(({ question, answer }) => `  <dt>${escapeHtml(question)}</dt><dd>${escapeHtml(answer)}</dd>`).join('\n')}
+</dl>` : ''}
+<h2>${escapeHtml(labels.recommendations)}</h2>
+${items.map(item => `<article>
+  <h3>${escapeHtml(item.name)}</h3>
+  <div class="meta">${escapeHtml([item.englishName !== item.name ? item.englishName : '', item.category, item.price].filter(Boolean).join(' · '))}</div>
+  <p>${escapeHtml(item.rationale)}</p>
+  <ul>
+${item.links.map(link => `    <li>${escapeHtml(link.store)}: <a href="${escapeHtml(link.url)}">${escapeHtml(link.url)}</a></li>`).join('\n')}
+  </ul>
+</article>`).join('\n')}
+</body>
+</html>
+`;
+
+// --- Calendar Reminder ---
+
+export interface ReminderEvent {
+  uid: string;
+  // All-day event on this date, as YYYY-MM-DD
+  date: string;
+  summary: string;
+  description: string;
+  // Days before the date the calendar should alert
+  alertDaysBefore: number;
+}
+
+const escapeIcsText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// RFC 5545 lines are at most 75 octets; longer ones continue on lines starting with a space.
+const foldIcsLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    if (encoder.encode(current + char).length > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const toIcsDate = (date: Date) => date.toISOString().slice(0, 10).replace(/-/g, '');
+
+export const buildIcs = ({ uid, date, summary, description, alertDaysBefore }: ReminderEvent, now = new Date()) => {
+  const start = new Date(`${date}T00:00:00Z`);
+  const end = new Date(start.getTime() + 24 * 60 * 60 * 1000);
+  const stamp = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//gifty//Gift reminder//EN',
+    'CALSCALE:GREGORIAN',
+    'BEGIN:VEVENT',
+    `UID:${uid}@gifty`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${toIcsDate(start)}`,
+    `DTEND;VALUE=DATE:${toIcsDate(end)}`,
+    `SUMMARY:${escapeIcsText(summary)}`,
+    `DESCRIPTION:${escapeIcsText(description)}`,
+    'BEGIN:VALARM',
+    'ACTION:DISPLAY',
+    `TRIGGER:-P${alertDaysBefore}D`,
+    `DESCRIPTION:${escapeIcsText(summary)}`,
+    'END:VALARM',
+    'END:VEVENT',
+    'END:VCALENDAR'
+  ];
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+};
+
+// --- Browser Helpers ---
+
+export const downloadFile = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Prints the page from a hidden frame, so no popup window is needed.
+export const printHtml = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = 'none';
+  frame.onload = () => {
+    frame.contentWindow?.focus();
+    frame.contentWindow?.print();
+    setTimeout(() => frame.remove(), 1000);
+  };
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+};
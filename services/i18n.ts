@@ -0,0 +1,893 @@
+import { GiftCategory, Theme } from '../types';
+import type { InterviewMode } from './interview';
+import type { ErrorKind } from './errors';
+import type { ProviderName } from './providers';
+import type { ContrastCheckId, ThemeMode } from './themes';
+import type { ExportLabels } from './export';
+
+// --- Languages & Markets ---
+
+export type Language = 'en' | 'tr' | 'de';
+
+export interface LanguageInfo {
+  // Name in the language itself, for pickers
+  label: string;
+  // Name in English, for the model instructions
+  englishName: string;
+  // How "Wireless Headphones" is searched in this language, used as a prompt example
+  exampleProduct: string;
+}
+
+export const LANGUAGES: Record<Language, LanguageInfo> = {
+  en: { label: "English", englishName: "ENGLISH", exampleProduct: "Wireless Headphones" },
+  tr: { label: "Türkçe", englishName: "TURKISH", exampleProduct: "Kablosuz Kulaklık" },
+  de: { label: "Deutsch", englishName: "GERMAN", exampleProduct: "Kabellose Kopfhörer" }
+};
+
+export interface Market {
+  // ISO 3166-1 alpha-2, matches RetailerDefinition.market
+  code: string;
+  name: string;
+  // Language product names are searched in on this market's stores
+  language: Language;
+  currency: string;
+  currencySymbol: string;
+}
+
+export const MARKETS: Market[] = [
+  { code: 'TR', name: "Türkiye", language: 'tr', currency: 'TRY', currencySymbol: "₺" },
+  { code: 'DE', name: "Deutschland", language: 'de', currency: 'EUR', currencySymbol: "€" },
+  { code: 'US', name: "United States", language: 'en', currency: 'USD', currencySymbol: "$" },
+  { code: 'GB', name: "United Kingdom", language: 'en', currency: 'GBP', currencySymbol: "£" }
+];
+
+export const getMarket = (code: string | undefined) =>
+  MARKETS.find(m => m.code === code) ?? MARKETS[0];
+
+// --- Locale Settings ---
+
+export interface LocaleSettings {
+  uiLanguage: Language;
+  interviewLanguage: Language;
+  market: string;
+}
+
+// English interface and questions with Turkish stores, which is how Gifty started out.
+export const DEFAULT_LOCALE: LocaleSettings = { uiLanguage: 'en', interviewLanguage: 'en', market: 'TR' };
+
+const LOCALE_KEY = 'gifty.locale';
+
+export const isLanguage = (value: unknown): value is Language =>
+  typeof value === 'string' && Object.hasOwn(LANGUAGES, value);
+
+export const loadLocaleSettings = (): LocaleSettings => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(LOCALE_KEY) || 'null');
+    return {
+      uiLanguage: isLanguage(parsed?.uiLanguage) ? parsed.uiLanguage : DEFAULT_LOCALE.uiLanguage,
+      interviewLanguage: isLanguage(parsed?.interviewLanguage) ? parsed.interviewLanguage : DEFAULT_LOCALE.interviewLanguage,
+      market: MARKETS.some(m => m.code === parsed?.market) ? parsed.market : DEFAULT_LOCALE.market
+    };
+  } catch {
+    return DEFAULT_LOCALE;
+  }
+};
+
+export const saveLocaleSettings = (settings: LocaleSettings) => {
+  try {
+    localStorage.setItem(LOCALE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn("Could not persist locale settings:", error);
+  }
+};
+
+// --- UI Strings ---
+
+export interface UiStrings {
+  tipCombine: string;
+  settings: string;
+  closeSettings: string;
+  restart: string;
+  introTitle: string;
+  introBody: string;
+  featureSmartTitle: string;
+  providerTaglines: Record<ProviderName, string>;
+  featureQuickTitle: string;
+  featureQuickDesc: string;
+  start: string;
+  resume: (label: string) => string;
+  pastSessions: string;
+  sessionSummary: (count: number, date: string) => string;
+  deleteSession: (label: string) => string;
+  profilesHeading: string;
+  addProfile: string;
+  editProfile: (name: string) => string;
+  deleteProfile: (name: string) => string;
+  saveProfile: string;
+  updateProfile: (name: string) => string;
+  profileEditorTitle: string;
+  closeProfileEditor: string;
+  profileName: string;
+  profileRelationship: string;
+  profileAgeRange: string;
+  profileListHint: string;
+  profileInterests: string;
+  profileDislikes: string;
+  profilePastGifts: string;
+  profileSave: string;
+  shortlist: (count: number) => string;
+  shortlistAdd: (name: string) => string;
+  shortlistRemove: (name: string) => string;
+  shortlistRemoveLabel: string;
+  shortlistTitle: string;
+  closeShortlist: string;
+  shortlistEmpty: string;
+  shortlistEveryone: string;
+  compareRecipient: string;
+  compareRationale: string;
+  compareCategory: string;
+  comparePrice: string;
+  compareStores: string;
+  compareStatus: string;
+  markBought: string;
+  boughtFor: (name: string) => string;
+  boughtForLabel: string;
+  boughtNeedsProfile: string;
+  refineHeading: string;
+  moreLikeThis: string;
+  notThis: string;
+  showMore: (count: number) => string;
+  refinePlaceholder: string;
+  refineSubmit: string;
+  refineMoreLikeEntry: (name: string) => string;
+  refineNotThisEntry: (name: string) => string;
+  refineShowMoreEntry: string;
+  batchStartButton: string;
+  batchesHeading: string;
+  deleteBatch: (label: string) => string;
+  batchTitle: string;
+  batchProfiles: string;
+  batchNames: string;
+  batchNamesPlaceholder: string;
+  batchOccasion: string;
+  batchCreate: string;
+  batchBoardTitle: string;
+  batchBoardSummary: (occasion: string, done: number, total: number) => string;
+  batchNotStarted: string;
+  batchIdeas: (count: number) => string;
+  batchStart: string;
+  batchContinue: string;
+  batchReopen: string;
+  batchDelete: string;
+  backToBoard: string;
+  untitledSession: string;
+  errorTitle: string;
+  errors: Record<ErrorKind, string>;
+  tryAgain: string;
+  retryIn: (seconds: number) => string;
+  editLastAnswer: string;
+  continueOffline: string;
+  offlineToggle: string;
+  offlineBadge: string;
+  waitingForConnection: string;
+  previousQuestions: string;
+  backToPrevious: string;
+  tapToChange: (question: string) => string;
+  customPlaceholder: string;
+  submit: string;
+  differentOptions: string;
+  resultsTitle: string;
+  resultsHint: string;
+  sharedResultsHint: string;
+  whyGift: (name: string) => string;
+  share: string;
+  shareTitle: string;
+  linkCopied: string;
+  shareFailed: string;
+  includeAnswers: string;
+  exportButton: string;
+  exportPrint: string;
+  exportMarkdown: string;
+  exportCsv: string;
+  exportDate: string;
+  exportReminder: string;
+  exportTitle: string;
+  exportTitleFor: (name: string) => string;
+  exportLabels: ExportLabels;
+  reminderSummary: string;
+  reminderSummaryFor: (name: string) => string;
+  findAnother: string;
+  findYourOwn: string;
+  categories: Record<GiftCategory, string>;
+  languageHeading: string;
+  uiLanguage: string;
+  interviewLanguage: string;
+  market: string;
+  storesHeading: string;
+  storesHint: string;
+  moveUp: (name: string) => string;
+  moveDown: (name: string) => string;
+  themeHeading: string;
+  themeModes: Record<ThemeMode, string>;
+  themePick: string;
+  themeCustom: string;
+  themeCreateCustom: string;
+  themeEditCustom: string;
+  themeSlots: Record<keyof Theme, string>;
+  contrastChecks: Record<ContrastCheckId, string>;
+  contrastBelowAA: string;
+  contrastTooLow: (minimum: number) => string;
+  themeSave: string;
+  occasionTitle: string;
+  occasionHint: string;
+  occasionDate: string;
+  occasionContinue: string;
+  occasionSkip: string;
+  neededBy: (date: string, days: number) => string;
+  neededByHint: string;
+  budgetTitle: string;
+  budgetHint: string;
+  budgetMin: string;
+  budgetMax: string;
+  budgetCurrency: string;
+  budgetContinue: string;
+  budgetSkip: string;
+  budgetErrors: { empty: string; negative: string; reversed: string };
+  budgetLabel: (range: string) => string;
+  budgetNone: string;
+  budgetChange: string;
+  budgetSet: string;
+  budgetUpdate: string;
+  budgetClear: string;
+  cancel: string;
+  modeHeading: string;
+  modes: Record<InterviewMode, { label: string; desc: string }>;
+  progress: (current: number, total: number) => string;
+  announceLoading: string;
+  announceResults: (count: number) => string;
+  multiSelect: string;
+  detailPlaceholder: string;
+  continueWithSelection: (count: number) => string;
+}
+
+export const UI_STRINGS: Record<Language, UiStrings> = {
+  en: {
+    tipCombine: "Tip: Turn on “Pick several” to combine options, and use the text box to add details.",
+    settings: "Settings",
+    closeSettings: "Close settings",
+    restart: "Restart",
+    introTitle: "Find the Perfect Gift.",
+    introBody: "Gifty asks you a few simple questions to understand who you're buying for. Pick how thorough you'd like to be, and we'll curate a list of personalized recommendations just for you.",
+    featureSmartTitle: "Smart AI",
+    providerTaglines: { gemini: "Powered by Gemini", openai: "Powered by your model", mock: "Demo mode, no API key", proxy: "Powered by Gifty's server" },
+    featureQuickTitle: "Quick",
+    featureQuickDesc: "Under 2 mins",
+    start: "Start Experience",
+    resume: (label) => `Resume where you left off · ${label}`,
+    pastSessions: "Past Sessions",
+    sessionSummary: (count, date) => `${count} ideas · ${date}`,
+    deleteSession: (label) => `Delete session for ${label}`,
+    profilesHeading: "Your People",
+    addProfile: "Add someone",
+    editProfile: (name) => `Edit ${name}`,
+    deleteProfile: (name) => `Delete ${name}`,
+    saveProfile: "Remember this person",
+    updateProfile: (name) => `Update ${name}'s profile`,
+    profileEditorTitle: "Recipient Profile",
+    closeProfileEditor: "Close profile",
+    profileName: "Name",
+    profileRelationship: "Relationship",
+    profileAgeRange: "Age range",
+    profileListHint: "One entry per line.",
+    profileInterests: "Interests",
+    profileDislikes: "Dislikes",
+    profilePastGifts: "Gifts already given",
+    profileSave: "Save",
+    shortlist: (count) => `Shortlist (${count})`,
+    shortlistAdd: (name) => `Add ${name} to the shortlist`,
+    shortlistRemove: (name) => `Remove ${name} from the shortlist`,
+    shortlistRemoveLabel: "Remove",
+    shortlistTitle: "Your Shortlist",
+    closeShortlist: "Close shortlist",
+    shortlistEmpty: "Star ideas on the results screen to collect and compare them here.",
+    shortlistEveryone: "Everyone",
+    compareRecipient: "For",
+    compareRationale: "Why",
+    compareCategory: "Category",
+    comparePrice: "Price",
+    compareStores: "Stores",
+    compareStatus: "Status",
+    markBought: "Mark as bought",
+    boughtFor: (name) => `Bought for ${name}`,
+    boughtForLabel: "Bought for",
+    boughtNeedsProfile: "Save the recipient as a profile to track what you bought.",
+    refineHeading: "Not quite right?",
+    moreLikeThis: "More like this",
+    notThis: "Not this",
+    showMore: (count) => `Show me ${count} more`,
+    refinePlaceholder: "e.g. more personal, something experiential",
+    refineSubmit: "Refine",
+    refineMoreLikeEntry: (name) => `More like ${name}`,
+    refineNotThisEntry: (name) => `Not ${name}`,
+    refineShowMoreEntry: "More ideas",
+    batchStartButton: "Shopping for several people?",
+    batchesHeading: "Groups",
+    deleteBatch: (label) => `Delete group ${label}`,
+    batchTitle: "Who are you shopping for?",
+    batchProfiles: "Saved people",
+    batchNames: "Others, one per line",
+    batchNamesPlaceholder: "Mom\nUncle Ali\nLittle Deniz",
+    batchOccasion: "What's the occasion?",
+    batchCreate: "Create the board",
+    batchBoardTitle: "Gift Board",
+    batchBoardSummary: (occasion, done, total) => `${occasion} · ${done} of ${total} done`,
+    batchNotStarted: "Not started",
+    batchIdeas: (count) => `${count} ideas`,
+    batchStart: "Start",
+    batchContinue: "Continue",
+    batchReopen: "Reopen",
+    batchDelete: "Delete this group",
+    backToBoard: "Back to the Board",
+    untitledSession: "Untitled session",
+    errorTitle: "Oops!",
+    errors: {
+      invalidKey: "The AI service rejected the API key. Check that it is set and valid, then reload.",
+      quota: "The AI service's usage quota has run out. Try again once it resets.",
+      rateLimited: "We're receiving too many requests right now. Please wait a moment and try again.",
+      safety: "The AI declined to answer this one. Try rephrasing your last answer.",
+      offline: "You're offline. Check your connection and try again.",
+      timeout: "The AI took too long to answer. Please try again.",
+      malformed: "The AI kept sending answers we couldn't use. Try again, or rephrase your last answer.",
+      unknown: "Something went wrong. Please check your connection and try again."
+    },
+    tryAgain: "Try Again",
+    retryIn: (seconds) => `Try again in ${seconds}s`,
+    editLastAnswer: "Edit my last answer",
+    continueOffline: "Continue offline",
+    offlineToggle: "Use offline mode (no AI, bundled catalog)",
+    offlineBadge: "Offline mode: suggestions from our curated catalog",
+    waitingForConnection: "AI suggestions return once you're back online",
+    previousQuestions: "Previous questions",
+    backToPrevious: "Back to previous question",
+    tapToChange: (question) => `${question} (tap to change)`,
+    customPlaceholder: "Type to combine options or add details...",
+    submit: "Submit",
+    differentOptions: "Show different options",
+    resultsTitle: "Perfect Picks",
+    resultsHint: "Tap a bubble to shop.",
+    sharedResultsHint: "Someone shared these ideas with you. Tap a bubble to shop.",
+    whyGift: (name) => `Why ${name}, and other stores`,
+    share: "Share",
+    shareTitle: "Gift ideas from Gifty",
+    linkCopied: "Link copied!",
+    shareFailed: "Couldn't share, try again",
+    includeAnswers: "Include a summary of my answers",
+    exportButton: "Export",
+    exportPrint: "Print",
+    exportMarkdown: "Markdown",
+    exportCsv: "CSV",
+    exportDate: "Occasion date",
+    exportReminder: "Calendar reminder (.ics)",
+    exportTitle: "Gift ideas",
+    exportTitleFor: (name) => `Gift ideas for ${name}`,
+    exportLabels: {
+      answers: "Your answers",
+      recommendations: "Recommendations",
+      gift: "Gift",
+      englishName: "English name",
+      category: "Category",
+      price: "Price",
+      rationale: "Why",
+      stores: "Stores"
+    },
+    reminderSummary: "Gift to buy",
+    reminderSummaryFor: (name) => `Gift for ${name}`,
+    findAnother: "Find Another Gift",
+    findYourOwn: "Find Your Own Gift",
+    categories: {
+      tech: "Tech & Gadgets",
+      home: "Home & Living",
+      fashion: "Fashion & Accessories",
+      experience: "Experiences",
+      hobby: "Hobbies",
+      wellness: "Wellness & Beauty",
+      books: "Books & Learning",
+      food: "Food & Drink",
+      kids: "Kids & Toys",
+      other: "Other Ideas"
+    },
+    languageHeading: "Language & Market",
+    uiLanguage: "Interface language",
+    interviewLanguage: "Question language",
+    market: "Shop in",
+    storesHeading: "Stores",
+    storesHint: "Choose which stores each gift links to. The first enabled store is used when you tap a bubble.",
+    moveUp: (name) => `Move ${name} up`,
+    moveDown: (name) => `Move ${name} down`,
+    themeHeading: "Theme",
+    themeModes: {
+      random: "New colours on every step",
+      system: "Follow system light/dark",
+      pinned: "Always the same theme"
+    },
+    themePick: "Theme to use",
+    themeCustom: "Custom",
+    themeCreateCustom: "Create a custom theme",
+    themeEditCustom: "Edit custom theme",
+    themeSlots: { bg: "Background", text: "Text", primary: "Primary", secondary: "Cards", accent: "Accent" },
+    contrastChecks: {
+      text: "Text on background",
+      cards: "Text on cards",
+      buttons: "Button labels",
+      accent: "Accent on background"
+    },
+    contrastBelowAA: "below AA",
+    contrastTooLow: (minimum) => `Every pair needs a contrast of at least ${minimum}:1 (WCAG AA).`,
+    themeSave: "Use this theme",
+    occasionTitle: "What's the occasion?",
+    occasionHint: "Optional. Add a date too and we'll suggest things that arrive in time.",
+    occasionDate: "Needed by",
+    occasionContinue: "Continue",
+    occasionSkip: "Skip",
+    neededBy: (date, days) => days === 0 ? `Needed today (${date})` : `Needed by ${date}, ${days === 1 ? 'tomorrow' : `in ${days} days`}`,
+    neededByHint: "Not much time for delivery, so experiences and digital gifts come first.",
+    budgetTitle: "Do you have a budget in mind?",
+    budgetHint: "Optional. Set a range and every idea will fit it.",
+    budgetMin: "From",
+    budgetMax: "Up to",
+    budgetCurrency: "Currency",
+    budgetContinue: "Continue",
+    budgetSkip: "Skip, my budget is flexible",
+    budgetErrors: {
+      empty: "Enter a minimum, a maximum or both.",
+      negative: "Amounts can't be negative.",
+      reversed: "The minimum can't be above the maximum."
+    },
+    budgetLabel: (range) => `Budget: ${range}`,
+    budgetNone: "Flexible budget",
+    budgetChange: "Change",
+    budgetSet: "Set a budget",
+    budgetUpdate: "Update ideas",
+    budgetClear: "Remove budget",
+    cancel: "Cancel",
+    modeHeading: "Interview length",
+    modes: {
+      quick: { label: "Quick", desc: "About 3 questions" },
+      standard: { label: "Standard", desc: "Up to 7 questions" },
+      deep: { label: "Deep", desc: "Up to 12 questions" },
+      scripted: { label: "Scripted", desc: "5 fixed questions" }
+    },
+    progress: (current, total) => `Question ${current} of ${total}`,
+    announceLoading: "Thinking...",
+    announceResults: (count) => `${count} gift ideas ready`,
+    multiSelect: "Pick several",
+    detailPlaceholder: "Add details (optional)...",
+    continueWithSelection: (count) => count > 0 ? `Continue with ${count} selected` : "Continue"
+  },
+  tr: {
+    tipCombine: "İpucu: Seçenekleri birleştirmek için “Birden fazla seç” kutusunu işaretleyin, ayrıntı eklemek için metin kutusunu kullanın.",
+    settings: "Ayarlar",
+    closeSettings: "Ayarları kapat",
+    restart: "Yeniden başlat",
+    introTitle: "Mükemmel Hediyeyi Bulun.",
+    introBody: "Gifty, kime hediye aldığınızı anlamak için birkaç basit soru sorar. Ne kadar ayrıntılı olmak istediğinizi seçin, size özel hediye önerileri hazırlayalım.",
+    featureSmartTitle: "Akıllı Yapay Zekâ",
+    providerTaglines: { gemini: "Gemini ile çalışır", openai: "Kendi modelinizle çalışır", mock: "Demo modu, API anahtarı yok", proxy: "Gifty sunucusuyla çalışır" },
+    featureQuickTitle: "Hızlı",
+    featureQuickDesc: "2 dakikadan kısa",
+    start: "Başlayalım",
+    resume: (label) => `Kaldığınız yerden devam edin · ${label}`,
+    pastSessions: "Geçmiş Oturumlar",
+    sessionSummary: (count, date) => `${count} öneri · ${date}`,
+    deleteSession: (label) => `${label} oturumunu sil`,
+    profilesHeading: "Kişileriniz",
+    addProfile: "Kişi ekle",
+    editProfile: (name) => `${name} profilini düzenle`,
+    deleteProfile: (name) => `${name} profilini sil`,
+    saveProfile: "Bu kişiyi hatırla",
+    updateProfile: (name) => `${name} profilini güncelle`,
+    profileEditorTitle: "Kişi Profili",
+    closeProfileEditor: "Profili kapat",
+    profileName: "İsim",
+    profileRelationship: "Yakınlık",
+    profileAgeRange: "Yaş aralığı",
+    profileListHint: "Her satıra bir tane.",
+    profileInterests: "İlgi alanları",
+    profileDislikes: "Sevmedikleri",
+    profilePastGifts: "Daha önce verilen hediyeler",
+    profileSave: "Kaydet",
+    shortlist: (count) => `Kısa liste (${count})`,
+    shortlistAdd: (name) => `${name} kısa listeye ekle`,
+    shortlistRemove: (name) => `${name} kısa listeden çıkar`,
+    shortlistRemoveLabel: "Çıkar",
+    shortlistTitle: "Kısa Listeniz",
+    closeShortlist: "Kısa listeyi kapat",
+    shortlistEmpty: "Fikirleri burada toplayıp karşılaştırmak için sonuç ekranında yıldızlayın.",
+    shortlistEveryone: "Herkes",
+    compareRecipient: "Kimin için",
+    compareRationale: "Neden",
+    compareCategory: "Kategori",
+    comparePrice: "Fiyat",
+    compareStores: "Mağazalar",
+    compareStatus: "Durum",
+    markBought: "Satın alındı olarak işaretle",
+    boughtFor: (name) => `${name} için alındı`,
+    boughtForLabel: "Kimin için alındı",
+    boughtNeedsProfile: "Aldıklarınızı takip etmek için kişiyi profil olarak kaydedin.",
+    refineHeading: "Tam istediğiniz gibi değil mi?",
+    moreLikeThis: "Buna benzer",
+    notThis: "Bu olmasın",
+    showMore: (count) => `${count} tane daha göster`,
+    refinePlaceholder: "örn. daha kişisel, bir deneyim",
+    refineSubmit: "İyileştir",
+    refineMoreLikeEntry: (name) => `${name} gibi daha fazla`,
+    refineNotThisEntry: (name) => `${name} olmasın`,
+    refineShowMoreEntry: "Daha fazla fikir",
+    batchStartButton: "Birden fazla kişiye mi alıyorsunuz?",
+    batchesHeading: "Gruplar",
+    deleteBatch: (label) => `${label} grubunu sil`,
+    batchTitle: "Kimlere hediye alıyorsunuz?",
+    batchProfiles: "Kayıtlı kişiler",
+    batchNames: "Diğerleri, her satıra bir kişi",
+    batchNamesPlaceholder: "Annem\nAli Amca\nKüçük Deniz",
+    batchOccasion: "Özel gün nedir?",
+    batchCreate: "Panoyu oluştur",
+    batchBoardTitle: "Hediye Panosu",
+    batchBoardSummary: (occasion, done, total) => `${occasion} · ${total} kişiden ${done} tamam`,
+    batchNotStarted: "Başlanmadı",
+    batchIdeas: (count) => `${count} öneri`,
+    batchStart: "Başla",
+    batchContinue: "Devam et",
+    batchReopen: "Yeniden aç",
+    batchDelete: "Bu grubu sil",
+    backToBoard: "Panoya Dön",
+    untitledSession: "Adsız oturum",
+    errorTitle: "Hay aksi!",
+    errors: {
+      invalidKey: "Yapay zeka servisi API anahtarını reddetti. Anahtarın tanımlı ve geçerli olduğunu kontrol edip sayfayı yenileyin.",
+      quota: "Yapay zeka servisinin kullanım kotası doldu. Kota sıfırlandığında tekrar deneyin.",
+      rateLimited: "Şu anda çok fazla istek alıyoruz. Lütfen biraz bekleyip tekrar deneyin.",
+      safety: "Yapay zeka bu soruya yanıt vermeyi reddetti. Son cevabınızı farklı ifade etmeyi deneyin.",
+      offline: "Çevrimdışısınız. Bağlantınızı kontrol edip tekrar deneyin.",
+      timeout: "Yapay zekanın yanıtı çok uzun sürdü. Lütfen tekrar deneyin.",
+      malformed: "Yapay zeka kullanılamayan yanıtlar göndermeye devam etti. Tekrar deneyin ya da son cevabınızı farklı ifade edin.",
+      unknown: "Bir şeyler ters gitti. Lütfen bağlantınızı kontrol edip tekrar deneyin."
+    },
+    tryAgain: "Tekrar Dene",
+    retryIn: (seconds) => `${seconds} sn sonra tekrar dene`,
+    editLastAnswer: "Son cevabımı düzenle",
+    continueOffline: "Çevrimdışı devam et",
+    offlineToggle: "Çevrimdışı modu kullan (yapay zekâ yok, hazır katalog)",
+    offlineBadge: "Çevrimdışı mod: öneriler seçkin kataloğumuzdan",
+    waitingForConnection: "bağlantı gelince yapay zekâ önerileri geri gelir",
+    previousQuestions: "Önceki sorular",
+    backToPrevious: "Önceki soruya dön",
+    tapToChange: (question) => `${question} (değiştirmek için dokunun)`,
+    customPlaceholder: "Seçenekleri birleştirin veya ayrıntı ekleyin...",
+    submit: "Gönder",
+    differentOptions: "Başka seçenekler göster",
+    resultsTitle: "Tam İsabet",
+    resultsHint: "Alışveriş için bir baloncuğa dokunun.",
+    sharedResultsHint: "Bu fikirler sizinle paylaşıldı. Alışveriş için bir baloncuğa dokunun.",
+    whyGift: (name) => `Neden ${name} ve diğer mağazalar`,
+    share: "Paylaş",
+    shareTitle: "Gifty'den hediye fikirleri",
+    linkCopied: "Bağlantı kopyalandı!",
+    shareFailed: "Paylaşılamadı, tekrar deneyin",
+    includeAnswers: "Cevaplarımın özetini ekle",
+    exportButton: "Dışa aktar",
+    exportPrint: "Yazdır",
+    exportMarkdown: "Markdown",
+    exportCsv: "CSV",
+    exportDate: "Özel gün tarihi",
+    exportReminder: "Takvim hatırlatıcısı (.ics)",
+    exportTitle: "Hediye fikirleri",
+    exportTitleFor: (name) => `${name} için hediye fikirleri`,
+    exportLabels: {
+      answers: "Cevaplarınız",
+      recommendations: "Öneriler",
+      gift: "Hediye",
+      englishName: "İngilizce adı",
+      category: "Kategori",
+      price: "Fiyat",
+      rationale: "Neden",
+      stores: "Mağazalar"
+    },
+    reminderSummary: "Alınacak hediye",
+    reminderSummaryFor: (name) => `${name} için hediye`,
+    findAnother: "Başka Hediye Bul",
+    findYourOwn: "Kendi Hediyeni Bul",
+    categories: {
+      tech: "Teknoloji",
+      home: "Ev & Yaşam",
+      fashion: "Moda & Aksesuar",
+      experience: "Deneyimler",
+      hobby: "Hobiler",
+      wellness: "Bakım & Sağlık",
+      books: "Kitap & Öğrenme",
+      food: "Yiyecek & İçecek",
+      kids: "Çocuk & Oyuncak",
+      other: "Diğer Fikirler"
+    },
+    languageHeading: "Dil & Pazar",
+    uiLanguage: "Arayüz dili",
+    interviewLanguage: "Soru dili",
+    market: "Alışveriş ülkesi",
+    storesHeading: "Mağazalar",
+    storesHint: "Her hediyenin hangi mağazalara bağlanacağını seçin. Bir baloncuğa dokunduğunuzda ilk etkin mağaza açılır.",
+    moveUp: (name) => `${name} yukarı taşı`,
+    moveDown: (name) => `${name} aşağı taşı`,
+    themeHeading: "Tema",
+    themeModes: {
+      random: "Her adımda yeni renkler",
+      system: "Sistemin açık/koyu ayarına uy",
+      pinned: "Hep aynı tema"
+    },
+    themePick: "Kullanılacak tema",
+    themeCustom: "Özel",
+    themeCreateCustom: "Özel tema oluştur",
+    themeEditCustom: "Özel temayı düzenle",
+    themeSlots: { bg: "Arka plan", text: "Metin", primary: "Ana renk", secondary: "Kartlar", accent: "Vurgu" },
+    contrastChecks: {
+      text: "Arka plandaki metin",
+      cards: "Kartlardaki metin",
+      buttons: "Düğme yazıları",
+      accent: "Arka plandaki vurgu"
+    },
+    contrastBelowAA: "AA altında",
+    contrastTooLow: (minimum) => `Her çiftin kontrastı en az ${minimum}:1 olmalı (WCAG AA).`,
+    themeSave: "Bu temayı kullan",
+    occasionTitle: "Hangi vesileyle?",
+    occasionHint: "İsteğe bağlı. Bir tarih de ekleyin, zamanında ulaşacak şeyler önerelim.",
+    occasionDate: "Son tarih",
+    occasionContinue: "Devam",
+    occasionSkip: "Geç",
+    neededBy: (date, days) => days === 0 ? `Bugün gerekli (${date})` : `${date} tarihine kadar gerekli, ${days === 1 ? 'yarın' : `${days} gün içinde`}`,
+    neededByHint: "Teslimat için fazla zaman yok, bu yüzden deneyimler ve dijital hediyeler önce geliyor.",
+    budgetTitle: "Aklınızda bir bütçe var mı?",
+    budgetHint: "İsteğe bağlı. Bir aralık belirleyin, tüm fikirler ona uysun.",
+    budgetMin: "En az",
+    budgetMax: "En fazla",
+    budgetCurrency: "Para birimi",
+    budgetContinue: "Devam",
+    budgetSkip: "Geç, bütçem esnek",
+    budgetErrors: {
+      empty: "En az, en fazla ya da ikisini birden girin.",
+      negative: "Tutarlar negatif olamaz.",
+      reversed: "En az tutar en fazla tutardan büyük olamaz."
+    },
+    budgetLabel: (range) => `Bütçe: ${range}`,
+    budgetNone: "Esnek bütçe",
+    budgetChange: "Değiştir",
+    budgetSet: "Bütçe belirle",
+    budgetUpdate: "Fikirleri güncelle",
+    budgetClear: "Bütçeyi kaldır",
+    cancel: "Vazgeç",
+    modeHeading: "Görüşme uzunluğu",
+    modes: {
+      quick: { label: "Hızlı", desc: "Yaklaşık 3 soru" },
+      standard: { label: "Standart", desc: "En fazla 7 soru" },
+      deep: { label: "Detaylı", desc: "En fazla 12 soru" },
+      scripted: { label: "Sabit", desc: "5 sabit soru" }
+    },
+    progress: (current, total) => `Soru ${current} / ${total}`,
+    announceLoading: "Düşünüyorum...",
+    announceResults: (count) => `${count} hediye önerisi hazır`,
+    multiSelect: "Birden fazla seç",
+    detailPlaceholder: "Ayrıntı ekleyin (isteğe bağlı)...",
+    continueWithSelection: (count) => count > 0 ? `${count} seçimle devam et` : "Devam"
+  },
+  de: {
+    tipCombine: "Tipp: Aktiviere „Mehrere wählen“, um Optionen zu kombinieren, und ergänze Details im Textfeld.",
+    settings: "Einstellungen",
+    closeSettings: "Einstellungen schließen",
+    restart: "Neu starten",
+    introTitle: "Finde das perfekte Geschenk.",
+    introBody: "Gifty stellt dir ein paar einfache Fragen, um zu verstehen, für wen du ein Geschenk suchst. Wähle, wie gründlich es sein soll, und wir stellen dir persönliche Empfehlungen zusammen.",
+    featureSmartTitle: "Smarte KI",
+    providerTaglines: { gemini: "Mit Gemini", openai: "Mit deinem eigenen Modell", mock: "Demo-Modus, kein API-Schlüssel", proxy: "Über den Gifty-Server" },
+    featureQuickTitle: "Schnell",
+    featureQuickDesc: "Unter 2 Minuten",
+    start: "Los geht's",
+    resume: (label) => `Dort weitermachen, wo du aufgehört hast · ${label}`,
+    pastSessions: "Frühere Sitzungen",
+    sessionSummary: (count, date) => `${count} Ideen · ${date}`,
+    deleteSession: (label) => `Sitzung für ${label} löschen`,
+    profilesHeading: "Deine Leute",
+    addProfile: "Person hinzufügen",
+    editProfile: (name) => `${name} bearbeiten`,
+    deleteProfile: (name) => `${name} löschen`,
+    saveProfile: "Diese Person merken",
+    updateProfile: (name) => `Profil von ${name} aktualisieren`,
+    profileEditorTitle: "Profil",
+    closeProfileEditor: "Profil schließen",
+    profileName: "Name",
+    profileRelationship: "Beziehung",
+    profileAgeRange: "Alter",
+    profileListHint: "Ein Eintrag pro Zeile.",
+    profileInterests: "Interessen",
+    profileDislikes: "Mag nicht",
+    profilePastGifts: "Bereits verschenkt",
+    profileSave: "Speichern",
+    shortlist: (count) => `Merkliste (${count})`,
+    shortlistAdd: (name) => `${name} auf die Merkliste`,
+    shortlistRemove: (name) => `${name} von der Merkliste entfernen`,
+    shortlistRemoveLabel: "Entfernen",
+    shortlistTitle: "Deine Merkliste",
+    closeShortlist: "Merkliste schließen",
+    shortlistEmpty: "Markiere Ideen auf der Ergebnisseite mit einem Stern, um sie hier zu sammeln und zu vergleichen.",
+    shortlistEveryone: "Alle",
+    compareRecipient: "Für",
+    compareRationale: "Warum",
+    compareCategory: "Kategorie",
+    comparePrice: "Preis",
+    compareStores: "Shops",
+    compareStatus: "Status",
+    markBought: "Als gekauft markieren",
+    boughtFor: (name) => `Gekauft für ${name}`,
+    boughtForLabel: "Gekauft für",
+    boughtNeedsProfile: "Speichere die Person als Profil, um Gekauftes festzuhalten.",
+    refineHeading: "Noch nicht ganz das Richtige?",
+    moreLikeThis: "Mehr davon",
+    notThis: "Nicht das",
+    showMore: (count) => `${count} weitere zeigen`,
+    refinePlaceholder: "z. B. persönlicher, ein Erlebnis",
+    refineSubmit: "Verfeinern",
+    refineMoreLikeEntry: (name) => `Mehr wie ${name}`,
+    refineNotThisEntry: (name) => `Nicht ${name}`,
+    refineShowMoreEntry: "Mehr Ideen",
+    batchStartButton: "Für mehrere Personen einkaufen?",
+    batchesHeading: "Gruppen",
+    deleteBatch: (label) => `Gruppe ${label} löschen`,
+    batchTitle: "Für wen kaufst du ein?",
+    batchProfiles: "Gespeicherte Personen",
+    batchNames: "Weitere, eine pro Zeile",
+    batchNamesPlaceholder: "Mama\nOnkel Ali\nKleine Deniz",
+    batchOccasion: "Was ist der Anlass?",
+    batchCreate: "Board erstellen",
+    batchBoardTitle: "Geschenke-Board",
+    batchBoardSummary: (occasion, done, total) => `${occasion} · ${done} von ${total} fertig`,
+    batchNotStarted: "Noch nicht begonnen",
+    batchIdeas: (count) => `${count} Ideen`,
+    batchStart: "Starten",
+    batchContinue: "Weiter",
+    batchReopen: "Wieder öffnen",
+    batchDelete: "Diese Gruppe löschen",
+    backToBoard: "Zurück zum Board",
+    untitledSession: "Unbenannte Sitzung",
+    errorTitle: "Hoppla!",
+    errors: {
+      invalidKey: "Der KI-Dienst hat den API-Schlüssel abgelehnt. Prüfe, ob er gesetzt und gültig ist, und lade die Seite neu.",
+      quota: "Das Nutzungskontingent des KI-Dienstes ist aufgebraucht. Versuche es erneut, sobald es zurückgesetzt ist.",
+      rateLimited: "Gerade gehen sehr viele Anfragen ein. Bitte warte einen Moment und versuche es erneut.",
+      safety: "Die KI hat die Antwort verweigert. Formuliere deine letzte Antwort anders.",
+      offline: "Du bist offline. Prüfe deine Verbindung und versuche es erneut.",
+      timeout: "Die KI hat zu lange für eine Antwort gebraucht. Bitte versuche es erneut.",
+      malformed: "Die KI hat wiederholt unbrauchbare Antworten geliefert. Versuche es erneut oder formuliere deine letzte Antwort anders.",
+      unknown: "Etwas ist schiefgelaufen. Bitte prüfe deine Verbindung und versuche es erneut."
+    },
+    tryAgain: "Erneut versuchen",
+    retryIn: (seconds) => `Erneut versuchen in ${seconds} s`,
+    editLastAnswer: "Letzte Antwort bearbeiten",
+    continueOffline: "Offline weitermachen",
+    offlineToggle: "Offline-Modus verwenden (ohne KI, mit Katalog)",
+    offlineBadge: "Offline-Modus: Vorschläge aus unserem Katalog",
+    waitingForConnection: "KI-Vorschläge gibt es wieder, sobald du online bist",
+    previousQuestions: "Vorherige Fragen",
+    backToPrevious: "Zurück zur vorherigen Frage",
+    tapToChange: (question) => `${question} (zum Ändern tippen)`,
+    customPlaceholder: "Optionen kombinieren oder Details ergänzen...",
+    submit: "Senden",
+    differentOptions: "Andere Optionen zeigen",
+    resultsTitle: "Volltreffer",
+    resultsHint: "Tippe auf eine Blase, um einzukaufen.",
+    sharedResultsHint: "Jemand hat diese Ideen mit dir geteilt. Tippe auf eine Blase, um einzukaufen.",
+    whyGift: (name) => `Warum ${name}, und weitere Shops`,
+    share: "Teilen",
+    shareTitle: "Geschenkideen von Gifty",
+    linkCopied: "Link kopiert!",
+    shareFailed: "Teilen fehlgeschlagen, bitte erneut versuchen",
+    includeAnswers: "Zusammenfassung meiner Antworten anhängen",
+    exportButton: "Exportieren",
+    exportPrint: "Drucken",
+    exportMarkdown: "Markdown",
+    exportCsv: "CSV",
+    exportDate: "Datum des Anlasses",
+    exportReminder: "Kalendererinnerung (.ics)",
+    exportTitle: "Geschenkideen",
+    exportTitleFor: (name) => `Geschenkideen für ${name}`,
+    exportLabels: {
+      answers: "Deine Antworten",
+      recommendations: "Empfehlungen",
+      gift: "Geschenk",
+      englishName: "Englischer Name",
+      category: "Kategorie",
+      price: "Preis",
+      rationale: "Warum",
+      stores: "Shops"
+    },
+    reminderSummary: "Geschenk besorgen",
+    reminderSummaryFor: (name) => `Geschenk für ${name}`,
+    findAnother: "Weiteres Geschenk finden",
+    findYourOwn: "Eigenes Geschenk finden",
+    categories: {
+      tech: "Technik & Gadgets",
+      home: "Wohnen & Leben",
+      fashion: "Mode & Accessoires",
+      experience: "Erlebnisse",
+      hobby: "Hobbys",
+      wellness: "Wellness & Pflege",
+      books: "Bücher & Lernen",
+      food: "Essen & Trinken",
+      kids: "Kinder & Spielzeug",
+      other: "Weitere Ideen"
+    },
+    languageHeading: "Sprache & Markt",
+    uiLanguage: "Sprache der Oberfläche",
+    interviewLanguage: "Sprache der Fragen",
+    market: "Einkaufen in",
+    storesHeading: "Shops",
+    storesHint: "Wähle, zu welchen Shops jedes Geschenk verlinkt. Beim Tippen auf eine Blase öffnet sich der erste aktive Shop.",
+    moveUp: (name) => `${name} nach oben`,
+    moveDown: (name) => `${name} nach unten`,
+    themeHeading: "Farbschema",
+    themeModes: {
+      random: "Neue Farben bei jedem Schritt",
+      system: "Hell/Dunkel des Systems folgen",
+      pinned: "Immer dasselbe Farbschema"
+    },
+    themePick: "Zu verwendendes Farbschema",
+    themeCustom: "Eigenes",
+    themeCreateCustom: "Eigenes Farbschema erstellen",
+    themeEditCustom: "Eigenes Farbschema bearbeiten",
+    themeSlots: { bg: "Hintergrund", text: "Text", primary: "Hauptfarbe", secondary: "Karten", accent: "Akzent" },
+    contrastChecks: {
+      text: "Text auf Hintergrund",
+      cards: "Text auf Karten",
+      buttons: "Button-Beschriftungen",
+      accent: "Akzent auf Hintergrund"
+    },
+    contrastBelowAA: "unter AA",
+    contrastTooLow: (minimum) => `Jedes Paar braucht einen Kontrast von mindestens ${minimum}:1 (WCAG AA).`,
+    themeSave: "Dieses Farbschema verwenden",
+    occasionTitle: "Was ist der Anlass?",
+    occasionHint: "Optional. Gib auch ein Datum an, dann schlagen wir vor, was rechtzeitig ankommt.",
+    occasionDate: "Gebraucht bis",
+    occasionContinue: "Weiter",
+    occasionSkip: "Überspringen",
+    neededBy: (date, days) => days === 0 ? `Heute gebraucht (${date})` : `Gebraucht bis ${date}, ${days === 1 ? 'morgen' : `in ${days} Tagen`}`,
+    neededByHint: "Für eine Lieferung ist kaum Zeit, deshalb stehen Erlebnisse und digitale Geschenke vorne.",
+    budgetTitle: "Hast du ein Budget im Kopf?",
+    budgetHint: "Optional. Lege einen Rahmen fest, und jede Idee passt hinein.",
+    budgetMin: "Ab",
+    budgetMax: "Bis",
+    budgetCurrency: "Währung",
+    budgetContinue: "Weiter",
+    budgetSkip: "Überspringen, mein Budget ist flexibel",
+    budgetErrors: {
+      empty: "Gib ein Minimum, ein Maximum oder beides ein.",
+      negative: "Beträge können nicht negativ sein.",
+      reversed: "Das Minimum darf nicht über dem Maximum liegen."
+    },
+    budgetLabel: (range) => `Budget: ${range}`,
+    budgetNone: "Flexibles Budget",
+    budgetChange: "Ändern",
+    budgetSet: "Budget festlegen",
+    budgetUpdate: "Ideen aktualisieren",
+    budgetClear: "Budget entfernen",
+    cancel: "Abbrechen",
+    modeHeading: "Umfang",
+    modes: {
+      quick: { label: "Schnell", desc: "Etwa 3 Fragen" },
+      standard: { label: "Standard", desc: "Bis zu 7 Fragen" },
+      deep: { label: "Ausführlich", desc: "Bis zu 12 Fragen" },
+      scripted: { label: "Festgelegt", desc: "5 feste Fragen" }
+    },
+    progress: (current, total) => `Frage ${current} von ${total}`,
+    announceLoading: "Einen Moment...",
+    announceResults: (count) => `${count} Geschenkideen bereit`,
+    multiSelect: "Mehrere wählen",
+    detailPlaceholder: "Details ergänzen (optional)...",
+    continueWithSelection: (count) => count > 0 ? `Weiter mit ${count} ausgewählt` : "Weiter"
+  }
+};
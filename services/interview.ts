@@ -0,0 +1,169 @@
+import { HistoryItem, StepResponse } from '../types';
+import { Language } from './i18n';
+
+// --- Interview Scripts ---
+
+export type InterviewMode = 'quick' | 'standard' | 'deep' | 'scripted';
+
+// A question the app asks itself at a fixed position, with a fixed option set.
+// The model never sees it as its own turn; it only reads the answer from the history.
+export interface ScriptedQuestion {
+  id: string;
+  // 1-based question index
+  position: number;
+  // What the question covers, in English, so the model knows not to ask about it again
+  topic: string;
+  question: Record<Language, string>;
+  options: Record<Language, string[]>;
+}
+
+export interface InterviewScript {
+  mode: InterviewMode;
+  // Questions asked before the recommendations; the model fills every unscripted slot
+  maxQuestions: number;
+  questions: ScriptedQuestion[];
+}
+
+// --- Question Bank ---
+
+const RELATIONSHIP: Omit<ScriptedQuestion, 'position'> = {
+  id: 'relationship',
+  topic: "who the recipient is (relationship to the user)",
+  question: {
+    en: "Who are you buying this gift for?",
+    tr: "Bu hediyeyi kime alıyorsunuz?",
+    de: "Für wen ist das Geschenk?"
+  },
+  options: {
+    en: ["Partner", "Mother", "Father", "Sibling", "Friend", "Colleague", "Child", "Grandparent", "Teacher", "Neighbor"],
+    tr: ["Sevgili / Eş", "Anne", "Baba", "Kardeş", "Arkadaş", "İş arkadaşı", "Çocuk", "Büyükanne / Büyükbaba", "Öğretmen", "Komşu"],
+    de: ["Partner/in", "Mutter", "Vater", "Geschwister", "Freund/in", "Kolleg/in", "Kind", "Großeltern", "Lehrer/in", "Nachbar/in"]
+  }
+};
+
+const AGE: Omit<ScriptedQuestion, 'position'> = {
+  id: 'age',
+  topic: "the recipient's age range",
+  question: {
+    en: "What is their age range?",
+    tr: "Yaş aralığı nedir?",
+    de: "Wie alt ist die Person ungefähr?"
+  },
+  options: {
+    en: ["Under 6", "6-12", "13-17", "18-24", "25-34", "35-44", "45-54", "55-64", "65+"],
+    tr: ["6 yaş altı", "6-12", "13-17", "18-24", "25-34", "35-44", "45-54", "55-64", "65+"],
+    de: ["Unter 6", "6-12", "13-17", "18-24", "25-34", "35-44", "45-54", "55-64", "65+"]
+  }
+};
+
+const OCCASION: Omit<ScriptedQuestion, 'position'> = {
+  id: 'occasion',
+  topic: "the occasion for the gift",
+  question: {
+    en: "What's the occasion?",
+    tr: "Hediye hangi vesileyle?",
+    de: "Was ist der Anlass?"
+  },
+  options: {
+    en: ["Birthday", "Anniversary", "Wedding", "New baby", "New Year", "Religious holiday", "Graduation", "Housewarming", "Thank you", "Just because"],
+    tr: ["Doğum günü", "Yıl dönümü", "Düğün", "Yeni bebek", "Yılbaşı", "Bayram", "Mezuniyet", "Yeni ev", "Teşekkür", "Sebepsiz"],
+    de: ["Geburtstag", "Jahrestag", "Hochzeit", "Geburt", "Neujahr", "Religiöser Feiertag", "Abschluss", "Einzug", "Dankeschön", "Einfach so"]
+  }
+};
+
+const INTERESTS: Omit<ScriptedQuestion, 'position'> = {
+  id: 'interests',
+  topic: "the recipient's main interests",
+  question: {
+    en: "What do they enjoy in their free time?",
+    tr: "Boş zamanlarında neler yapmaktan hoşlanır?",
+    de: "Was macht die Person gern in ihrer Freizeit?"
+  },
+  options: {
+    en: ["Cooking", "Travel", "Reading", "Gaming", "Fitness", "Music", "Gardening", "Art & Crafts", "Technology", "Fashion"],
+    tr: ["Yemek yapmak", "Seyahat", "Okumak", "Oyun", "Spor", "Müzik", "Bahçecilik", "Sanat & El işi", "Teknoloji", "Moda"],
+    de: ["Kochen", "Reisen", "Lesen", "Gaming", "Fitness", "Musik", "Gärtnern", "Kunst & Basteln", "Technik", "Mode"]
+  }
+};
+
+const PERSONALITY: Omit<ScriptedQuestion, 'position'> = {
+  id: 'personality',
+  topic: "the recipient's personality",
+  question: {
+    en: "How would you describe their personality?",
+    tr: "Kişiliğini nasıl tarif edersiniz?",
+    de: "Wie würdest du die Person beschreiben?"
+  },
+  options: {
+    en: ["Adventurous", "Cozy homebody", "Tech enthusiast", "Creative", "Practical", "Sentimental", "Social butterfly", "Minimalist"],
+    tr: ["Maceraperest", "Ev kuşu", "Teknoloji meraklısı", "Yaratıcı", "Pratik", "Duygusal", "Sosyal kelebek", "Minimalist"],
+    de: ["Abenteuerlustig", "Gemütlich", "Technikfan", "Kreativ", "Praktisch", "Sentimental", "Gesellig", "Minimalistisch"]
+  }
+};
+
+// Also walked by the offline engine (services/offline.ts), which maps the options back to tags by index.
+export const QUESTION_BANK = {
+  relationship: RELATIONSHIP,
+  age: AGE,
+  occasion: OCCASION,
+  interests: INTERESTS,
+  personality: PERSONALITY
+};
+
+// --- Modes ---
+
+export const INTERVIEW_SCRIPTS: Record<InterviewMode, InterviewScript> = {
+  quick: {
+    mode: 'quick',
+    maxQuestions: 3,
+    questions: [{ ...RELATIONSHIP, position: 1 }, { ...AGE, position: 2 }]
+  },
+  standard: {
+    mode: 'standard',
+    maxQuestions: 7,
+    questions: [{ ...RELATIONSHIP, position: 1 }, { ...AGE, position: 2 }]
+  },
+  deep: {
+    mode: 'deep',
+    maxQuestions: 12,
+    questions: [{ ...RELATIONSHIP, position: 1 }, { ...AGE, position: 2 }, { ...OCCASION, position: 3 }]
+  },
+  // Fully fixed questionnaire; the model only writes the recommendations.
+  scripted: {
+    mode: 'scripted',
+    maxQuestions: 5,
+    questions: [
+      { ...OCCASION, position: 1 },
+      { ...RELATIONSHIP, position: 2 },
+      { ...AGE, position: 3 },
+      { ...INTERESTS, position: 4 },
+      { ...PERSONALITY, position: 5 }
+    ]
+  }
+};
+
+export const INTERVIEW_MODES = Object.keys(INTERVIEW_SCRIPTS) as InterviewMode[];
+
+export const DEFAULT_MODE: InterviewMode = 'standard';
+
+// Whether the history already holds an answer to this question, in any language.
+export const isAnswered = (question: Omit<ScriptedQuestion, 'position'>, history: HistoryItem[]) =>
+  history.some(h => h.role === 'model' && Object.values(question.question).includes(h.text));
+
+// The scripted question due at this point of the history. Questions answered up front
+// (e.g. from a recipient profile) are skipped; one whose position has passed is asked next.
+export const getScriptedStep = (script: InterviewScript, history: HistoryItem[], language: Language): StepResponse | null => {
+  const position = history.filter(h => h.role === 'model').length + 1;
+  const scripted = script.questions.find(q => q.position <= position && !isAnswered(q, history));
+  if (!scripted) return null;
+  return {
+    question: scripted.question[language],
+    options: scripted.options[language],
+    isFinal: false,
+    recommendations: []
+  };
+};
+
+// The model must not wrap up before every scripted question has been asked.
+export const getEarliestFinalPosition = (script: InterviewScript) =>
+  Math.max(0, ...script.questions.map(q => q.position)) + 1;
@@ -0,0 +1,128 @@
+import { HistoryItem, StepResponse } from '../types';
+import { Language } from './i18n';
+import { QUESTION_BANK } from './interview';
+import { createUserTurn } from './answers';
+
+// --- Occasion & Deadline ---
+
+export type OccasionKind =
+  | 'birthday'
+  | 'anniversary'
+  | 'wedding'
+  | 'newBaby'
+  | 'newYear'
+  | 'religiousHoliday'
+  | 'graduation'
+  | 'housewarming'
+  | 'thankYou'
+  | 'justBecause';
+
+// Index-aligned with the options of the occasion question in every language
+export const OCCASION_KINDS: OccasionKind[] = [
+  'birthday', 'anniversary', 'wedding', 'newBaby', 'newYear', 'religiousHoliday', 'graduation', 'housewarming', 'thankYou', 'justBecause'
+];
+
+// What the gift is for and when it is needed, as picked up front. Either may be unknown;
+// the interview can still reveal the kind, the date only ever comes from the user.
+export interface SessionOccasion {
+  kind: OccasionKind | null;
+  // YYYY-MM-DD
+  date: string | null;
+}
+
+export const NO_OCCASION: SessionOccasion = { kind: null, date: null };
+
+// Closer than this and ordering something to be delivered is a gamble
+export const URGENT_DAYS = 7;
+
+// How each occasion is described to the model
+export const OCCASION_TOPICS: Record<OccasionKind, string> = {
+  birthday: "a birthday",
+  anniversary: "an anniversary (relationship or work)",
+  wedding: "a wedding; think of the couple and their new shared life, not only the person asked about",
+  newBaby: "a new baby; gifts for the baby or for the new parents",
+  newYear: "New Year",
+  religiousHoliday: "a religious holiday (e.g. Eid, Christmas, Hanukkah, Diwali; take the answers into account to tell which, and respect its customs)",
+  graduation: "a graduation; something that marks the milestone or helps with what comes next",
+  housewarming: "a housewarming",
+  thankYou: "a thank-you; keep it modest and thoughtful",
+  justBecause: "no particular occasion, just because"
+};
+
+// Free-text mentions, checked in OCCASION_KINDS order. Only ever a guess, so the prompt
+// treats a kind found this way as a hint.
+const OCCASION_HINTS: Partial<Record<OccasionKind, RegExp>> = {
+  birthday: /birthday|b-day|doğum günü|geburtstag/i,
+  anniversary: /anniversary|yıl ?dönümü|jahrestag/i,
+  wedding: /wedding|getting married|düğün|nikah|evlili|hochzeit|heirat/i,
+  newBaby: /new ?born|new baby|baby shower|yeni bebek|bebeği oldu|geburt|babyparty/i,
+  newYear: /new year|yılbaşı|yeni yıl|neujahr|silvester/i,
+  religiousHoliday: /christmas|xmas|\beid\b|ramadan|hanukkah|diwali|easter|bayram|noel|weihnacht|ostern/i,
+  graduation: /graduat|mezuniyet|abschluss/i,
+  housewarming: /housewarming|mov(ed|ing) in(to)? (a|their|her|his) new|yeni eve taşın|ev hediyesi|einweihung/i,
+  thankYou: /as a thank[- ]you|thank-you gift|to say thank|teşekkür hediyesi|dankeschön-geschenk/i
+};
+
+// The kind an option of the occasion question stands for, in any language.
+export const getOccasionKind = (option: string): OccasionKind | null => {
+  for (const options of Object.values(QUESTION_BANK.occasion.options)) {
+    const idx = options.indexOf(option.trim());
+    if (idx !== -1) return OCCASION_KINDS[idx] ?? null;
+  }
+  return null;
+};
+
+// The occasion picked as an answer to the occasion question, in any language.
+export const getAnsweredOccasionKind = (history: HistoryItem[]): OccasionKind | null => {
+  for (let i = 0; i + 1 < history.length; i += 2) {
+    if (!Object.values(QUESTION_BANK.occasion.question).includes(history[i].text)) continue;
+    const answer = history[i + 1];
+    const picked = (answer.selected ?? [answer.text]).map(getOccasionKind).find(Boolean);
+    if (picked) return picked;
+  }
+  return null;
+};
+
+// A guess at the occasion from anything the user typed.
+export const guessOccasionKind = (history: HistoryItem[]): OccasionKind | null => {
+  const said = history.filter(h => h.role === 'user').map(h => h.text).join('\n');
+  return OCCASION_KINDS.find(kind => OCCASION_HINTS[kind]?.test(said)) ?? null;
+};
+
+// What the session knows: the occasion picked up front or in the interview, or else a guess
+// from the answers, flagged as `inferred`.
+export const resolveOccasion = (occasion: SessionOccasion, history: HistoryItem[]) => {
+  const picked = occasion.kind ?? getAnsweredOccasionKind(history);
+  const kind = picked ?? guessOccasionKind(history);
+  return { ...occasion, kind, inferred: picked === null && kind !== null };
+};
+
+// Today in the user's time zone, as YYYY-MM-DD (the value format of date inputs)
+export const todayIso = (now = new Date()) =>
+  new Date(now.getTime() - now.getTimezoneOffset() * 60000).toISOString().slice(0, 10);
+
+// Whole days from today (local time) to the date; negative once it has passed.
+export const daysUntil = (date: string, today = new Date()) => {
+  const [year, month, day] = date.split('-').map(Number);
+  const target = new Date(year, month - 1, day);
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  return Math.round((target.getTime() - start.getTime()) / (24 * 60 * 60 * 1000));
+};
+
+export const isUrgent = (daysLeft: number | null) =>
+  daysLeft !== null && daysLeft >= 0 && daysLeft <= URGENT_DAYS;
+
+// The answered occasion question as the turns and step of an interview, like a profile's seed.
+export const buildOccasionHistory = (answer: string, language: Language) => {
+  const history: HistoryItem[] = [
+    { role: 'model', text: QUESTION_BANK.occasion.question[language] },
+    createUserTurn({ selected: [answer], detail: '' })
+  ];
+  const steps: StepResponse[] = [{
+    question: QUESTION_BANK.occasion.question[language],
+    options: QUESTION_BANK.occasion.options[language],
+    isFinal: false,
+    recommendations: []
+  }];
+  return { history, steps };
+};
@@ -0,0 +1,185 @@
+import { HistoryItem, Recommendation, StepResponse } from '../types';
+import { Language, getMarket } from './i18n';
+import { INTERVIEW_SCRIPTS, QUESTION_BANK, ScriptedQuestion } from './interview';
+import { AgeBand, CatalogGift, GIFT_CATALOG } from './catalog';
+import { StepContext } from './prompt';
+import { OCCASION_KINDS, isUrgent } from './occasion';
+
+// --- Offline Interview Engine ---
+
+// Walks a bundled question tree and picks from the bundled catalog, with the same
+// StepResponse contract as the model. Used without an API key, network or quota.
+
+type TreeQuestion = Omit<ScriptedQuestion, 'position'>;
+
+const KID_INTERESTS: TreeQuestion = {
+  id: 'kidInterests',
+  topic: "what the child likes to play with",
+  question: {
+    en: "What do they love to play?",
+    tr: "En çok neyle oynamayı sever?",
+    de: "Womit spielt das Kind am liebsten?"
+  },
+  options: {
+    en: ["Building things", "Drawing & painting", "Playing outside", "Animals", "Science & experiments", "Music", "Stories & books", "Dress-up & pretend"],
+    tr: ["Bir şeyler inşa etmek", "Resim yapmak", "Dışarıda oynamak", "Hayvanlar", "Bilim & deneyler", "Müzik", "Hikâyeler & kitaplar", "Kostüm & rol oyunları"],
+    de: ["Bauen", "Malen & Zeichnen", "Draußen spielen", "Tiere", "Forschen & Experimente", "Musik", "Geschichten & Bücher", "Verkleiden & Rollenspiele"]
+  }
+};
+
+const TREE_QUESTIONS: TreeQuestion[] = [
+  QUESTION_BANK.relationship,
+  QUESTION_BANK.age,
+  QUESTION_BANK.occasion,
+  QUESTION_BANK.interests,
+  QUESTION_BANK.personality,
+  KID_INTERESTS
+];
+
+// One catalog tag per option, index-aligned with the options of every language
+const OPTION_TAGS: Record<string, string[]> = {
+  relationship: ['partner', 'parent', 'parent', 'sibling', 'friend', 'colleague', 'child', 'grandparent', 'colleague', 'neighbor'],
+  age: ['kid', 'kid', 'teen', 'young', 'adult', 'adult', 'adult', 'senior', 'senior'],
+  occasion: ['birthday', 'anniversary', 'wedding', 'baby', 'newyear', 'holiday', 'graduation', 'housewarming', 'thanks', 'any'],
+  interests: ['cooking', 'travel', 'reading', 'gaming', 'fitness', 'music', 'gardening', 'art', 'tech', 'fashion'],
+  personality: ['adventurous', 'cozy', 'tech', 'creative', 'practical', 'sentimental', 'social', 'minimalist'],
+  kidInterests: ['building', 'art', 'outdoors', 'animals', 'science', 'music', 'reading', 'pretend']
+};
+
+// How much a matching tag counts, by the question it came from
+const TOPIC_WEIGHTS: Record<string, number> = {
+  relationship: 1,
+  age: 0,
+  occasion: 2,
+  interests: 3,
+  personality: 2,
+  kidInterests: 3
+};
+
+const TAG_WEIGHTS = new Map<string, number>();
+Object.entries(OPTION_TAGS).forEach(([topic, tags]) => tags.forEach(tag => {
+  TAG_WEIGHTS.set(tag, Math.max(TAG_WEIGHTS.get(tag) ?? 0, TOPIC_WEIGHTS[topic]));
+}));
+
+const AGE_BANDS: AgeBand[] = ['kid', 'teen', 'young', 'adult', 'senior'];
+
+// Rough, static rates; only used to rank catalog prices against a budget
+const ROUGH_EUR_RATES: Record<string, number> = { EUR: 1, USD: 1.1, GBP: 0.85, TRY: 38 };
+
+const RECOMMENDATION_COUNT = 6;
+
+const CONCLUSION: Record<Language, string> = {
+  en: "Here are some ideas from our curated catalog.",
+  tr: "Seçkin kataloğumuzdan bazı fikirler.",
+  de: "Hier sind einige Ideen aus unserem Katalog."
+};
+
+// Free text only matches options long enough not to hide inside other words
+const MIN_FUZZY_LENGTH = 4;
+
+// Tags of every known option the text names
+const findMentionedTags = (text: string, tags = new Set<string>()) => {
+  const said = text.toLowerCase();
+  TREE_QUESTIONS.forEach(q => Object.values(q.options).forEach(options => options.forEach((option, idx) => {
+    if (option.length >= MIN_FUZZY_LENGTH && said.includes(option.toLowerCase())) {
+      tags.add(OPTION_TAGS[q.id][idx]);
+    }
+  })));
+  return tags;
+};
+
+const readAnswers = (history: HistoryItem[]) => {
+  const answered = new Set<string>();
+  const tags = new Set<string>();
+
+  for (let i = 0; i + 1 < history.length; i += 2) {
+    const answer = history[i + 1];
+    const labels = answer.selected?.length ? answer.selected : [answer.text];
+
+    // Questions from the tree are recognised in any language and mapped by option index
+    const question = TREE_QUESTIONS.find(q => Object.values(q.question).includes(history[i].text));
+    if (question) {
+      answered.add(question.id);
+      labels.forEach(label => Object.values(question.options).forEach(options => {
+        const idx = options.indexOf(label);
+        if (idx >= 0) tags.add(OPTION_TAGS[question.id][idx]);
+      }));
+    }
+
+    // Anything else the user said (model questions, free text) can still name a known option
+    findMentionedTags([...labels, answer.detail ?? ''].join(' '), tags);
+  }
+  return { answered, tags };
+};
+
+// The decision tree: children get a play question instead of interests and personality.
+const nextQuestion = (answered: Set<string>, tags: Set<string>) => {
+  const path = tags.has('kid')
+    ? ['relationship', 'age', 'kidInterests', 'occasion']
+    : ['relationship', 'age', 'interests', 'personality', 'occasion'];
+  const id = path.find(topic => !answered.has(topic));
+  return id ? TREE_QUESTIONS.find(q => q.id === id)! : null;
+};
+
+const priceIn = (gift: CatalogGift, currency: string) => {
+  const amount = gift.priceEur * (ROUGH_EUR_RATES[currency] ?? 1);
+  // Round to a price that looks like a price
+  const step = amount >= 1000 ? 100 : amount >= 100 ? 10 : 5;
+  return Math.max(step, Math.round(amount / step) * step);
+};
+
+const pickGifts = (tags: Set<string>, context: StepContext): Recommendation[] => {
+  const market = getMarket(context.market);
+  const ageBand = AGE_BANDS.find(band => tags.has(band));
+  const budget = context.budget;
+  const given = new Set([...(context.recipient?.pastGifts ?? []), ...(context.takenGifts ?? [])].map(g => g.trim().toLowerCase()));
+  const disliked = findMentionedTags((context.recipient?.dislikes ?? []).join(' '));
+  // Too close to the date for shipping: experiences need no delivery
+  const urgent = isUrgent(context.occasion?.daysLeft ?? null);
+
+  const fitsBudget = (gift: CatalogGift) => {
+    if (!budget) return true;
+    const price = priceIn(gift, budget.currency);
+    return (budget.min === null || price >= budget.min) && (budget.max === null || price <= budget.max);
+  };
+  const score = (gift: CatalogGift) =>
+    gift.tags.reduce((sum, tag) => sum + (tags.has(tag) ? TAG_WEIGHTS.get(tag) ?? 1 : 0), 0);
+
+  // Gifts within the budget come first, then (when in a hurry) experiences, then the best
+  // matches; catalog order breaks ties
+  return GIFT_CATALOG
+    .filter(gift => !ageBand || !gift.ages || gift.ages.includes(ageBand))
+    // Never a gift they had or someone else in the batch gets, nor one built around a dislike
+    .filter(gift => !Object.values(gift.name).some(name => given.has(name.toLowerCase())))
+    .filter(gift => !gift.tags.some(tag => disliked.has(tag)))
+    .map(gift => ({ gift, fits: fitsBudget(gift), quick: urgent && gift.category === 'experience', score: score(gift) }))
+    .sort((a, b) => Number(b.fits) - Number(a.fits) || Number(b.quick) - Number(a.quick) || b.score - a.score)
+    .slice(0, RECOMMENDATION_COUNT)
+    .map(({ gift }) => ({
+      name: gift.name[market.language],
+      englishName: gift.name.en,
+      rationale: gift.rationale[context.interviewLanguage],
+      category: gift.category,
+      priceTier: gift.priceTier,
+      ...(budget ? { estimatedPrice: { amount: priceIn(gift, budget.currency), currency: budget.currency } } : {})
+    }));
+};
+
+// `final` forces the recommendations, like it does for the model.
+export const getOfflineStep = (history: HistoryItem[], context: StepContext, final = false): StepResponse => {
+  const language = context.interviewLanguage;
+  const { answered, tags } = readAnswers(history);
+  // An occasion picked up front is an answer the history doesn't hold; a guessed one isn't
+  const occasionIndex = context.occasion?.kind && !context.occasion.inferred ? OCCASION_KINDS.indexOf(context.occasion.kind) : -1;
+  if (occasionIndex !== -1) {
+    answered.add(QUESTION_BANK.occasion.id);
+    tags.add(OPTION_TAGS.occasion[occasionIndex]);
+  }
+  const questionIndex = history.filter(h => h.role === 'model').length + 1;
+  const next = final || questionIndex > INTERVIEW_SCRIPTS[context.mode].maxQuestions ? null : nextQuestion(answered, tags);
+
+  if (next) {
+    return { question: next.question[language], options: next.options[language], isFinal: false, recommendations: [] };
+  }
+  return { question: CONCLUSION[language], options: [], isFinal: true, recommendations: pickGifts(tags, context) };
+};
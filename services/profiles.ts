@@ -0,0 +1,138 @@
+import { HistoryItem, StepResponse } from '../types';
+import { Language } from './i18n';
+import { QUESTION_BANK, ScriptedQuestion } from './interview';
+import { createUserTurn } from './answers';
+
+// --- Recipient Profiles ---
+
+const STORAGE_KEY = 'gifty.profiles';
+const MAX_PROFILES = 50;
+
+// Everything known about someone we buy for. Answers are kept as typed or picked,
+// in whatever language the interview ran in.
+export interface RecipientProfile {
+  id: string;
+  name: string;
+  relationship: string;
+  ageRange: string;
+  interests: string[];
+  dislikes: string[];
+  // Gifts they already have from us, never to be suggested again
+  pastGifts: string[];
+  updatedAt: number;
+}
+
+export type ProfileFields = Omit<RecipientProfile, 'id' | 'updatedAt'>;
+
+const unique = (items: string[]) => Array.from(new Set(items.map(i => i.trim()).filter(Boolean)));
+
+export const createProfileId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const isProfile = (value: any): value is RecipientProfile =>
+  typeof value?.id === 'string' &&
+  typeof value.name === 'string' &&
+  Array.isArray(value.interests) &&
+  Array.isArray(value.dislikes) &&
+  Array.isArray(value.pastGifts);
+
+export const loadProfiles = (): RecipientProfile[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed.filter(isProfile) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeProfiles = (profiles: RecipientProfile[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles.slice(0, MAX_PROFILES)));
+  } catch (error) {
+    console.warn("Could not persist profiles:", error);
+  }
+};
+
+// Upserts the profile and moves it to the front (most recently used first).
+export const saveProfile = (profile: RecipientProfile) => {
+  const others = loadProfiles().filter(p => p.id !== profile.id);
+  writeProfiles([profile, ...others]);
+};
+
+export const deleteProfile = (id: string) => {
+  writeProfiles(loadProfiles().filter(p => p.id !== id));
+};
+
+// Records a gift as given, so it is never suggested for this person again.
+// Pass every name it goes by (market and English), since later sessions compare exact names.
+export const addPastGift = (profile: RecipientProfile, ...names: string[]): RecipientProfile => ({
+  ...profile,
+  pastGifts: unique([...profile.pastGifts, ...names]),
+  updatedAt: Date.now()
+});
+
+// --- Profile <-> History ---
+
+// Model-written questions are recognised by wording; dislikes are checked first,
+// since "what don't they enjoy" also reads like an interests question.
+const DISLIKE_HINTS = /dislike|avoid|don'?t (like|want|enjoy)|not (like|into)|hate|sevme|hoşlanma|istemez|kaçın|nicht mag|mag nicht|mögen nicht|abneigung|vermeiden/i;
+const INTEREST_HINTS = /interest|hobb|enjoy|free time|passion|ilgi|hobi|sevdiği|boş zaman|interess|hobby|freizeit|gern|leidenschaft/i;
+
+const asks = (question: Omit<ScriptedQuestion, 'position'>, text: string) =>
+  Object.values(question.question).includes(text);
+
+// Splits an answer back into what was said: the picked chips plus the free text.
+const answerParts = (answer: HistoryItem) =>
+  answer.selected ? [...answer.selected, answer.detail ?? ''] : [answer.text];
+
+// Reads what a finished interview revealed about the recipient. Fields the history says
+// nothing about keep the value from `base`; lists are merged.
+export const buildProfileFromHistory = (history: HistoryItem[], base?: ProfileFields): ProfileFields => {
+  const profile: ProfileFields = {
+    name: base?.name ?? '',
+    relationship: base?.relationship ?? '',
+    ageRange: base?.ageRange ?? '',
+    interests: [...(base?.interests ?? [])],
+    dislikes: [...(base?.dislikes ?? [])],
+    pastGifts: [...(base?.pastGifts ?? [])]
+  };
+
+  for (let i = 0; i + 1 < history.length; i += 2) {
+    const question = history[i].text;
+    const answer = history[i + 1];
+    if (asks(QUESTION_BANK.relationship, question)) {
+      profile.relationship = answer.text;
+    } else if (asks(QUESTION_BANK.age, question)) {
+      profile.ageRange = answer.text;
+    } else if (DISLIKE_HINTS.test(question)) {
+      profile.dislikes.push(...answerParts(answer));
+    } else if (asks(QUESTION_BANK.interests, question) || INTEREST_HINTS.test(question)) {
+      profile.interests.push(...answerParts(answer));
+    }
+  }
+
+  return {
+    ...profile,
+    name: profile.name || profile.relationship,
+    interests: unique(profile.interests),
+    dislikes: unique(profile.dislikes),
+    pastGifts: unique(profile.pastGifts)
+  };
+};
+
+// Replays the profile as answered bank questions, with the step each one was shown in,
+// so the interview starts after them and going back can still change them.
+export const buildProfileHistory = (profile: RecipientProfile, language: Language) => {
+  const history: HistoryItem[] = [];
+  const steps: StepResponse[] = [];
+  const seed = (question: Omit<ScriptedQuestion, 'position'>, selected: string[]) => {
+    if (selected.length === 0) return;
+    steps.push({ question: question.question[language], options: question.options[language], isFinal: false, recommendations: [] });
+    history.push({ role: 'model', text: question.question[language] }, createUserTurn({ selected, detail: '' }));
+  };
+
+  seed(QUESTION_BANK.relationship, unique([profile.relationship]));
+  seed(QUESTION_BANK.age, unique([profile.ageRange]));
+  seed(QUESTION_BANK.interests, profile.interests);
+  return { history, steps };
+};
@@ -0,0 +1,174 @@
+import { Schema, Type } from "@google/genai";
+import { Budget, HistoryItem } from '../types';
+import { LANGUAGES, Language, getMarket } from './i18n';
+import { InterviewMode, INTERVIEW_SCRIPTS, getEarliestFinalPosition } from './interview';
+import { GIFT_CATEGORIES, PRICE_TIERS } from './recommendations';
+import { describeBudgetForPrompt } from './budget';
+import { OccasionKind, OCCASION_TOPICS, isUrgent } from './occasion';
+import { Refinement, buildRefinementPrompt, getRefinementCount } from './refine';
+
+// --- Step Prompt ---
+
+// Everything the system instruction is built from. Shared by the browser and the proxy
+// server, which rebuilds the instruction itself instead of trusting one from the client.
+export interface StepContext {
+  mode: InterviewMode;
+  interviewLanguage: Language;
+  // Market code the product names are written for
+  market: string;
+  budget: Budget | null;
+  // Known from a saved recipient profile; absent for anonymous sessions
+  recipient?: RecipientNotes;
+  // English names of gifts already picked for other people in the same batch
+  takenGifts?: string[];
+  // What the gift is for and when it is needed, as far as known
+  occasion?: OccasionNotes;
+}
+
+export interface RecipientNotes {
+  dislikes: string[];
+  pastGifts: string[];
+}
+
+// What the step is asked for. The user prompt is built from this on whichever side talks
+// to the model, so the proxy never forwards free text from the browser.
+export type StepIntent =
+  | { kind: 'next' }
+  // Final recommendations again, under the budget in the context
+  | { kind: 'budgetChanged' }
+  // The same question again, worded differently
+  | { kind: 'different'; shown: { question: string; options: string[] } }
+  // `current` holds the English names of the recommendations on screen
+  | { kind: 'refine'; refinement: Refinement; current: string[] };
+
+export interface OccasionNotes {
+  kind: OccasionKind | null;
+  // The kind was guessed from free text rather than picked by the user
+  inferred: boolean;
+  // YYYY-MM-DD, and the days left until it as counted by the client
+  date: string | null;
+  daysLeft: number | null;
+}
+
+export const STEP_RESPONSE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    question: { type: Type.STRING },
+    options: { type: Type.ARRAY, items: { type: Type.STRING } },
+    isFinal: { type: Type.BOOLEAN },
+    recommendations: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          englishName: { type: Type.STRING },
+          rationale: { type: Type.STRING },
+          category: { type: Type.STRING, enum: GIFT_CATEGORIES },
+          priceTier: { type: Type.STRING, enum: PRICE_TIERS },
+          estimatedPrice: {
+            type: Type.OBJECT,
+            properties: {
+              amount: { type: Type.NUMBER },
+              currency: { type: Type.STRING }
+            },
+            required: ["amount", "currency"]
+          }
+        },
+        required: ["name", "englishName", "rationale", "category", "priceTier"]
+      }
+    }
+  },
+  required: ["question", "options", "isFinal"]
+};
+
+const describeGiftHistory = ({ recipient, takenGifts }: StepContext) => {
+  const notes = [
+    recipient?.pastGifts.length ? `They already received these gifts, so NEVER recommend them or near-identical items: ${recipient.pastGifts.join('; ')}.` : '',
+    recipient?.dislikes.length ? `They dislike: ${recipient.dislikes.join('; ')}. Avoid gifts built around these.` : '',
+    takenGifts?.length ? `These were already picked for other people the user is shopping for; do NOT recommend them again: ${takenGifts.join('; ')}.` : ''
+  ].filter(Boolean);
+  return notes.join(' ') || "Nothing is known about gifts they received before.";
+};
+
+const describeOccasion = ({ occasion }: StepContext) => {
+  if (!occasion?.kind && !occasion?.date) {
+    return "Not known. If an answer reveals it, let it shape the recommendations.";
+  }
+  const notes = [
+    occasion.kind && !occasion.inferred ? `The gift is for ${OCCASION_TOPICS[occasion.kind]}. Every recommendation MUST suit this occasion.` : '',
+    occasion.kind && occasion.inferred ? `The answers suggest the gift may be for ${OCCASION_TOPICS[occasion.kind]}. Let that shape the recommendations only if the rest of the answers agree.` : '',
+    occasion.date ? `It is needed by ${occasion.date} (${occasion.daysLeft} days from today).` : '',
+    isUrgent(occasion.daysLeft)
+      ? "That is too soon to count on delivery: favour experiences, digital gifts (e-gift cards, subscriptions, online courses, tickets) and items sold in most local shops, and list them first."
+      : ''
+  ].filter(Boolean);
+  return notes.join(' ');
+};
+
+// `final` forces the recommendations regardless of how far the interview got. A refinement
+// asks for a set number of new recommendations instead of a full list.
+export const buildSystemInstruction = (history: HistoryItem[], context: StepContext, final = false, intent?: StepIntent) => {
+  const script = INTERVIEW_SCRIPTS[context.mode];
+  const activeMarket = getMarket(context.market);
+  const questionIndex = history.filter(h => h.role === 'model').length + 1;
+  const mustFinalize = final || questionIndex > script.maxQuestions;
+  const scriptedTopics = script.questions.map(q => `"${q.topic}" (Question Index ${q.position})`);
+  const questionLanguage = LANGUAGES[context.interviewLanguage];
+  const productLanguage = LANGUAGES[activeMarket.language];
+  const recommendationCount = intent?.kind === 'refine'
+    ? `only the new recommendations the user prompt asks for (at most ${getRefinementCount(intent.refinement)})`
+    : "6-10 curated recommendations";
+
+  return `
+    You are Gifty, a sophisticated gift recommendation assistant.
+    Your goal is to discover the perfect gift through a series of thoughtful questions.
+    
+    Mode Settings:
+    - Interview Mode: ${script.mode}
+    - Max Questions: ${script.maxQuestions}
+    - Current Question Index: ${questionIndex}
+    
+    Instructions:
+    1. LANGUAGE PROTOCOL: 
+       - All 'question' and 'options' fields MUST be in ${questionLanguage.englishName}.
+       - The conversation must flow in ${questionLanguage.englishName}.
+    2. SCRIPTED QUESTIONS: The app asks these itself at fixed positions. NEVER ask about them yourself; read their answers from the history: ${scriptedTopics.join(', ') || 'none'}.
+    3. STRICT RULE: Do not set 'isFinal' to true before Question Index ${getEarliestFinalPosition(script)}.
+    4. Progressively narrow down interests and personality. A user answer may combine several 'selected' options with a free-text 'detail'; take all of them into account.
+    5. STRICTLY PROHIBITED: Do not ask any questions about price, budget, or money. ${context.budget
+      ? `The user's budget is ${describeBudgetForPrompt(context.budget)}. Every recommendation MUST realistically cost within it on stores in ${activeMarket.name}, and include its 'estimatedPrice' with 'currency' "${context.budget.currency}".`
+      : "Assume budget is flexible."}
+    6. Provide 8-12 concise, distinct answer options in ${questionLanguage.englishName} for every question.
+    7. If you have sufficient data OR Current Question > Max Questions, set 'isFinal' to true and provide ${recommendationCount}.
+    8. If 'isFinal' is true, set 'question' to a concluding phrase in ${questionLanguage.englishName} like "Here are some curated ideas." and keep options empty.
+    9. MARKET OUTPUT - ${activeMarket.name.toUpperCase()}: When 'isFinal' is true, each item's 'name' in the 'recommendations' array MUST be a specific gift product name in ${productLanguage.englishName}, phrased the way shoppers search for it on stores in ${activeMarket.name}. Example: Return "${productLanguage.exampleProduct}" for "Wireless Headphones".
+    10. For every recommendation also provide:
+       - 'englishName': the same product name in ENGLISH.
+       - 'rationale': ONE short sentence in ${questionLanguage.englishName} explaining why it fits, referring to the user's answers.
+       - 'category': one of ${GIFT_CATEGORIES.join(', ')}.
+       - 'priceTier': a rough estimate, one of ${PRICE_TIERS.join(', ')}.
+    11. GIFT HISTORY: ${describeGiftHistory(context)}
+    12. OCCASION: ${describeOccasion(context)}
+    ${mustFinalize ? "13. THE INTERVIEW IS OVER: You MUST set 'isFinal' to true in this response." : ""}
+  `;
+};
+
+export const buildNextStepPrompt = (history: HistoryItem[]) => history.length === 0
+  ? "Start the session. Ask 'Who are you buying this gift for?' in the question language."
+  : `Based on the conversation so far, determine the next step. History: ${JSON.stringify(history)}`;
+
+export const buildStepPrompt = (history: HistoryItem[], context: StepContext, intent: StepIntent) => {
+  switch (intent.kind) {
+    case 'next':
+      return buildNextStepPrompt(history);
+    case 'budgetChanged': {
+      const change = context.budget ? `changed their budget to ${describeBudgetForPrompt(context.budget)}` : "removed their budget";
+      return `The user ${change}. Set 'isFinal' to true and provide new recommendations that fit. History: ${JSON.stringify(history)}`;
+    }
+    case 'different':
+      return `${buildNextStepPrompt(history)}\nThe user asked for something different. Do not repeat this question or its options: ${JSON.stringify(intent.shown)}`;
+    case 'refine':
+      return buildRefinementPrompt(history, intent.refinement, intent.current);
+  }
+};
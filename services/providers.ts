@@ -0,0 +1,325 @@
+import { GenerateContentResponse, GoogleGenAI, Schema } from "@google/genai";
+import { HistoryItem, StepResponse } from '../types';
+import { wait } from './cancellation';
+import type { StepContext, StepIntent } from './prompt';
+
+// --- Provider Contract ---
+
+export type ProviderName = 'gemini' | 'openai' | 'mock' | 'proxy';
+
+export interface ModelRequest {
+  prompt: string;
+  systemInstruction: string;
+  responseSchema: Schema;
+  // The structured history is passed alongside the flattened prompt so that
+  // providers which don't talk to a language model (mock) can still reason about the step.
+  history: HistoryItem[];
+  // What `systemInstruction` and `prompt` were built from; the proxy sends these instead
+  // of the built text.
+  context: StepContext;
+  intent: StepIntent;
+  // Problems with the previous response when this is a repair attempt
+  repair?: string[];
+  // Set when the app requires the final recommendations in this response.
+  final?: boolean;
+  // Providers that can stream call this with the text received so far, as it grows.
+  onText?: (textSoFar: string) => void;
+  // Aborts the call on cancel or timeout; providers reject with the signal's reason.
+  signal?: AbortSignal;
+}
+
+export interface ModelResponse {
+  text: string | undefined;
+}
+
+export interface ModelProvider {
+  name: ProviderName;
+  generateContent(request: ModelRequest): Promise<ModelResponse>;
+}
+
+// Mirrors the shape of the SDK errors so the retry logic can treat every provider the same way.
+export class ProviderError extends Error {
+  status?: number;
+  // Parsed from a Retry-After header, when the server sent one
+  retryAfterMs?: number;
+
+  constructor(message: string, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// The provider refused the prompt or withheld its answer on safety grounds.
+export class ContentBlockedError extends ProviderError {
+  constructor(reason: string) {
+    super(`Response blocked: ${reason}`);
+    this.name = 'ContentBlockedError';
+  }
+}
+
+const BLOCKING_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) throw new ContentBlockedError(blockReason);
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && BLOCKING_FINISH_REASONS.includes(finishReason)) throw new ContentBlockedError(finishReason);
+};
+
+// --- Gemini ---
+
+export const createGeminiProvider = (apiKey: string | undefined, modelName = 'gemini-2.5-flash'): ModelProvider => {
+  // The SDK throws on construction without a key; failing per call instead lets the app fall back to offline mode
+  const ai = apiKey ? new GoogleGenAI({ apiKey }) : null;
+
+  return {
+    name: 'gemini',
+    async generateContent({ prompt, systemInstruction, responseSchema, onText, signal }) {
+      if (!ai) {
+        throw new ProviderError("API key missing: set VITE_GEMINI_API_KEY", 401);
+      }
+      const params = {
+        model: modelName,
+        contents: prompt,
+        config: {
+          systemInstruction,
+          responseMimeType: "application/json",
+          responseSchema,
+          abortSignal: signal
+        }
+      };
+
+      if (!onText) {
+        const response = await ai.models.generateContent(params);
+        assertNotBlocked(response);
+        return { text: response.text };
+      }
+
+      let text = '';
+      for await (const chunk of await ai.models.generateContentStream(params)) {
+        assertNotBlocked(chunk);
+        text += chunk.text ?? '';
+        onText(text);
+      }
+      return { text };
+    }
+  };
+};
+
+// --- OpenAI-compatible (OpenAI, OpenRouter, Ollama, LM Studio, llama.cpp...) ---
+
+// Gemini schemas use upper-case OpenAPI type names; JSON Schema wants them lower-case.
+const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const out: Record<string, unknown> = {};
+  if (schema.type) out.type = schema.type.toLowerCase();
+  if (schema.properties) {
+    out.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  if (schema.items) out.items = toJsonSchema(schema.items);
+  if (schema.required) out.required = schema.required;
+  if (schema.enum) out.enum = schema.enum;
+  return out;
+};
+
+// Retry-After is either a number of seconds or an HTTP date.
+const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Accumulates the content deltas of a server-sent event stream.
+const readStreamedContent = async (body: ReadableStream<Uint8Array>, onText: (textSoFar: string) => void) => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      if (!line.startsWith('data:')) continue;
+      const data = line.slice('data:'.length).trim();
+      if (!data || data === '[DONE]') continue;
+      const choice = JSON.parse(data)?.choices?.[0];
+      if (choice?.finish_reason === 'content_filter') throw new ContentBlockedError('content_filter');
+      const delta = choice?.delta?.content;
+      if (delta) {
+        text += delta;
+        onText(text);
+      }
+    }
+  }
+  return text;
+};
+
+export const createOpenAIProvider = (baseUrl: string, apiKey: string | undefined, modelName: string): ModelProvider => ({
+  name: 'openai',
+  async generateContent({ prompt, systemInstruction, responseSchema, onText, signal }) {
+    const res = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: modelName,
+        messages: [
+          { role: 'system', content: systemInstruction },
+          { role: 'user', content: prompt }
+        ],
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: 'step_response', schema: toJsonSchema(responseSchema) }
+        },
+        stream: Boolean(onText)
+      })
+    });
+
+    if (!res.ok) {
+      // The body says e.g. whether a 429 is a rate limit or an exhausted quota
+      const detail = await res.text().catch(() => '');
+      throw new ProviderError(
+        `OpenAI-compatible provider responded with ${res.status}: ${detail.slice(0, 500)}`,
+        res.status,
+        parseRetryAfter(res.headers.get('Retry-After'))
+      );
+    }
+
+    if (onText && res.body) {
+      return { text: await readStreamedContent(res.body, onText) };
+    }
+
+    const body = await res.json();
+    const choice = body?.choices?.[0];
+    if (choice?.finish_reason === 'content_filter' || choice?.message?.refusal) {
+      throw new ContentBlockedError(choice.message?.refusal || 'content_filter');
+    }
+    return { text: choice?.message?.content ?? undefined };
+  }
+});
+
+// --- Gifty proxy (server/proxy.ts) ---
+
+// The server owns the API key and builds both the system instruction and the prompt
+// from structured data, so it never relays text from the browser. Responses are not streamed.
+export const createProxyProvider = (endpoint: string): ModelProvider => ({
+  name: 'proxy',
+  async generateContent({ history, context, intent, repair, final, signal }) {
+    const res = await fetch(endpoint, {
+      method: 'POST',
+      signal,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ history, context, intent, repair, final: Boolean(final) })
+    });
+    const body = await res.json().catch(() => null);
+
+    if (!res.ok) {
+      if (body?.blocked) throw new ContentBlockedError(body.error);
+      throw new ProviderError(
+        `Gifty proxy responded with ${res.status}: ${body?.error ?? ''}`,
+        res.status,
+        parseRetryAfter(res.headers.get('Retry-After'))
+      );
+    }
+    return { text: body?.text ?? undefined };
+  }
+});
+
+// --- Mock (scripted, no network) ---
+
+export const DEFAULT_MOCK_SCRIPT: StepResponse[] = [
+  {
+    question: "Who are you buying this gift for?",
+    options: ["Partner", "Mother", "Father", "Sibling", "Friend", "Colleague", "Child", "Grandparent"],
+    isFinal: false,
+    recommendations: []
+  },
+  {
+    question: "What is their age range?",
+    options: ["Under 12", "13-17", "18-24", "25-34", "35-44", "45-54", "55-64", "65+"],
+    isFinal: false,
+    recommendations: []
+  },
+  {
+    question: "What do they enjoy in their free time?",
+    options: ["Cooking", "Travel", "Reading", "Gaming", "Fitness", "Music", "Gardening", "Art & Crafts"],
+    isFinal: false,
+    recommendations: []
+  },
+  {
+    question: "How would you describe their personality?",
+    options: ["Adventurous", "Cozy homebody", "Tech enthusiast", "Creative", "Practical", "Sentimental", "Social butterfly", "Minimalist"],
+    isFinal: false,
+    recommendations: []
+  },
+  {
+    question: "Here are some curated ideas.",
+    options: [],
+    isFinal: true,
+    recommendations: [
+      { name: "Kablosuz Kulaklık", englishName: "Wireless Headphones", rationale: "Great for someone who loves music on the go.", category: 'tech', priceTier: 'premium' },
+      { name: "Aromaterapi Seti", englishName: "Aromatherapy Set", rationale: "A calming treat for a cozy homebody.", category: 'wellness', priceTier: 'mid' },
+      { name: "Deri Defter", englishName: "Leather Journal", rationale: "Perfect for a creative, sentimental soul.", category: 'books', priceTier: 'budget' },
+      { name: "Akıllı Bileklik", englishName: "Fitness Tracker", rationale: "Keeps an active lifestyle on track.", category: 'tech', priceTier: 'mid' },
+      { name: "French Press Kahve Makinesi", englishName: "French Press Coffee Maker", rationale: "Turns every morning into a small ritual.", category: 'home', priceTier: 'budget' },
+      { name: "Bahçe Aleti Seti", englishName: "Garden Tool Set", rationale: "Made for weekends spent in the garden.", category: 'hobby', priceTier: 'mid' }
+    ]
+  }
+];
+
+// Replays a fixed script, one entry per model turn. Useful for demos and offline development.
+export const createMockProvider = (script: StepResponse[] = DEFAULT_MOCK_SCRIPT, latency = 600): ModelProvider => ({
+  name: 'mock',
+  async generateContent({ history, final, onText, signal }) {
+    const step = final ? script.length - 1 : history.filter(h => h.role === 'model').length;
+    const text = JSON.stringify(script[Math.min(step, script.length - 1)]);
+
+    if (!onText) {
+      await wait(latency, signal);
+      return { text };
+    }
+
+    // Trickles the payload out over the same latency to exercise the streaming UI
+    const chunks = 12;
+    const size = Math.ceil(text.length / chunks);
+    for (let sent = size; sent < text.length + size; sent += size) {
+      await wait(latency / chunks, signal);
+      onText(text.slice(0, sent));
+    }
+    return { text };
+  }
+});
+
+// --- Selection ---
+
+export const createProviderFromEnv = (env: ImportMetaEnv = import.meta.env): ModelProvider => {
+  const name = (env.VITE_MODEL_PROVIDER || 'gemini') as ProviderName;
+
+  switch (name) {
+    case 'mock':
+      return createMockProvider();
+    case 'proxy':
+      return createProxyProvider(env.VITE_PROXY_URL || `${env.BASE_URL}api/next-step`);
+    case 'openai':
+      return createOpenAIProvider(
+        env.VITE_OPENAI_BASE_URL || 'https://api.openai.com/v1',
+        env.VITE_OPENAI_API_KEY,
+        env.VITE_MODEL_NAME || 'gpt-4o-mini'
+      );
+    case 'gemini':
+    default:
+      return createGeminiProvider(env.VITE_GEMINI_API_KEY, env.VITE_MODEL_NAME || undefined);
+  }
+};
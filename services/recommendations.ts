@@ -0,0 +1,55 @@
+import { GiftCategory, PriceTier, Recommendation } from '../types';
+
+// --- Recommendation Helpers ---
+
+export const GIFT_CATEGORIES: GiftCategory[] = [
+  'tech', 'home', 'fashion', 'experience', 'hobby', 'wellness', 'books', 'food', 'kids', 'other'
+];
+
+export const PRICE_TIERS: PriceTier[] = ['budget', 'mid', 'premium', 'luxury'];
+
+// Renders a tier as repeated currency symbols, e.g. "€€" for 'mid'.
+export const formatPriceTier = (tier: PriceTier, currencySymbol: string) =>
+  currencySymbol.repeat(PRICE_TIERS.indexOf(tier) + 1);
+
+// Accepts untrusted recommendations (model output, share links, storage) and returns
+// the well-formed ones.
+export const normalizeRecommendations = (raw: unknown): Recommendation[] => {
+  if (!Array.isArray(raw)) return [];
+
+  return raw.flatMap((item): Recommendation[] => {
+    if (!item || typeof item !== 'object' || typeof item.name !== 'string' || !item.name.trim()) {
+      return [];
+    }
+    return [{
+      name: item.name,
+      englishName: typeof item.englishName === 'string' && item.englishName ? item.englishName : item.name,
+      rationale: typeof item.rationale === 'string' ? item.rationale : "",
+      category: GIFT_CATEGORIES.includes(item.category) ? item.category : 'other',
+      priceTier: PRICE_TIERS.includes(item.priceTier) ? item.priceTier : 'mid',
+      ...(typeof item.estimatedPrice?.amount === 'number' && typeof item.estimatedPrice?.currency === 'string'
+        ? { estimatedPrice: { amount: item.estimatedPrice.amount, currency: item.estimatedPrice.currency } }
+        : {})
+    }];
+  });
+};
+
+// Groups in the canonical category order, skipping empty categories.
+export const groupByCategory = (recommendations: Recommendation[]) =>
+  GIFT_CATEGORIES
+    .map(category => ({ category, items: recommendations.filter(r => r.category === category) }))
+    .filter(group => group.items.length > 0);
+
+const identity = (r: Recommendation) => r.englishName.trim().toLowerCase();
+
+// Appends up to `limit` fresh picks to the kept ones, dropping any that repeat a kept or excluded item.
+export const mergeRecommendations = (kept: Recommendation[], fresh: Recommendation[], excluded: Recommendation[] = [], limit = Infinity) => {
+  const seen = new Set([...kept, ...excluded].map(identity));
+  const added = fresh.filter(r => {
+    const id = identity(r);
+    if (seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+  return [...kept, ...added.slice(0, limit)];
+};
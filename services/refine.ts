@@ -0,0 +1,64 @@
+import { HistoryItem, Recommendation } from '../types';
+
+// --- Result Refinement ---
+
+// What the user asked of the results screen. Each one re-asks the model for the final
+// step with the full history, and becomes a turn of its own in that history.
+export type Refinement =
+  | { kind: 'moreLike'; gift: Recommendation }
+  | { kind: 'notThis'; gift: Recommendation }
+  | { kind: 'showMore' }
+  | { kind: 'tweak'; text: string };
+
+export const SHOW_MORE_COUNT = 5;
+// A tweak replaces the list, so it gets as many as the first results at most
+const TWEAK_COUNT = 10;
+
+// At most this many new recommendations are added by each refinement.
+export const getRefinementCount = (refinement: Refinement) => {
+  switch (refinement.kind) {
+    case 'notThis':
+      return 1;
+    case 'moreLike':
+    case 'showMore':
+      return SHOW_MORE_COUNT;
+    case 'tweak':
+      return TWEAK_COUNT;
+  }
+};
+
+// The recommendations that stay on screen: everything but the rejected one for "not this"
+// and "show more", otherwise only what the user liked (plus the gift they want more of).
+export const getKeptRecommendations = (refinement: Refinement, current: Recommendation[], liked: Recommendation[]) => {
+  switch (refinement.kind) {
+    case 'notThis':
+      return current.filter(r => r !== refinement.gift);
+    case 'showMore':
+      return current;
+    case 'moreLike':
+      return current.filter(r => r === refinement.gift || liked.includes(r));
+    case 'tweak':
+      return current.filter(r => liked.includes(r));
+  }
+};
+
+const describeRequest = (refinement: Refinement) => {
+  switch (refinement.kind) {
+    case 'moreLike':
+      return `The user wants more gifts like "${refinement.gift.englishName}". Provide ${getRefinementCount(refinement)} new recommendations similar to it.`;
+    case 'notThis':
+      return `The user does not want "${refinement.gift.englishName}". Provide exactly ${getRefinementCount(refinement)} new recommendation to replace it.`;
+    case 'showMore':
+      return `The user wants more ideas. Provide ${getRefinementCount(refinement)} new recommendations.`;
+    case 'tweak':
+      return `The user asked to refine the recommendations: "${refinement.text}". Provide 6-${getRefinementCount(refinement)} new recommendations that follow this request.`;
+  }
+};
+
+// `current` holds the English names of the recommendations on screen.
+export const buildRefinementPrompt = (history: HistoryItem[], refinement: Refinement, current: string[]) => `
+${describeRequest(refinement)}
+Do not repeat any of the current recommendations: ${JSON.stringify(current)}.
+Set 'isFinal' to true and return only the new recommendations; the ones the user keeps are added back by the app.
+History: ${JSON.stringify(history)}
+`;
@@ -0,0 +1,121 @@
+import { HistoryItem, StepResponse } from '../types';
+import { StepContext } from './prompt';
+
+// --- Response Cache ---
+
+// Model steps keyed on everything that shapes them, so identical openings across
+// sessions are answered without a model call. Bump the version when the prompt or
+// schema changes in a way that makes old responses wrong.
+const CACHE_VERSION = 1;
+const STORAGE_KEY = 'gifty.responseCache';
+
+interface CacheEntry {
+  step: StepResponse;
+  storedAt: number;
+}
+
+export interface ResponseCacheOptions {
+  ttlMs?: number;
+  maxEntries?: number;
+}
+
+// cyrb53: a fast, well-distributed 53-bit string hash; keys only need to be stable, not secret.
+const hashString = (text: string) => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+const normalizeText = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Chip order and spacing/case differences don't change the meaning of an answer.
+const normalizeTurn = (item: HistoryItem) => {
+  if (item.role === 'user' && item.selected) {
+    return [item.role, [...item.selected].map(normalizeText).sort(), normalizeText(item.detail ?? '')];
+  }
+  return [item.role, normalizeText(item.text)];
+};
+
+// Prefixed so keys never look like array indices, which JSON objects would reorder.
+export const buildCacheKey = (history: HistoryItem[], context: StepContext, providerName: string) =>
+  'k' + hashString(JSON.stringify([
+    CACHE_VERSION,
+    providerName,
+    context.mode,
+    context.interviewLanguage,
+    context.market,
+    context.budget,
+    context.recipient ?? null,
+    context.takenGifts ?? null,
+    context.occasion ?? null,
+    history.map(normalizeTurn)
+  ]));
+
+const isEntry = (value: any): value is CacheEntry =>
+  typeof value?.storedAt === 'number' &&
+  typeof value.step?.question === 'string' &&
+  Array.isArray(value.step.options);
+
+// An in-memory layer in front of localStorage. Both drop entries past `ttlMs` and
+// keep only the `maxEntries` most recent ones.
+export const createResponseCache = ({ ttlMs = 7 * 24 * 60 * 60 * 1000, maxEntries = 100 }: ResponseCacheOptions = {}) => {
+  let memory: Map<string, CacheEntry> | null = null;
+
+  const isFresh = (entry: CacheEntry, now: number) => now - entry.storedAt < ttlMs;
+
+  // Loaded on first use, so a broken or disabled storage only costs the persistent layer
+  const load = () => {
+    if (memory) return memory;
+    memory = new Map();
+    try {
+      const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+      const now = Date.now();
+      Object.entries(parsed ?? {}).forEach(([key, entry]) => {
+        if (isEntry(entry) && isFresh(entry, now)) memory!.set(key, entry);
+      });
+    } catch {
+      // Unreadable cache: start empty
+    }
+    return memory;
+  };
+
+  const persist = (entries: Map<string, CacheEntry>) => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(entries)));
+    } catch (error) {
+      console.warn("Could not persist response cache:", error);
+    }
+  };
+
+  return {
+    get(key: string): StepResponse | null {
+      const entries = load();
+      const entry = entries.get(key);
+      if (!entry) return null;
+      if (!isFresh(entry, Date.now())) {
+        entries.delete(key);
+        persist(entries);
+        return null;
+      }
+      return entry.step;
+    },
+
+    set(key: string, step: StepResponse) {
+      const entries = load();
+      // Re-inserting moves the key to the end, so Map order is oldest-first
+      entries.delete(key);
+      entries.set(key, { step, storedAt: Date.now() });
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+      persist(entries);
+    }
+  };
+};
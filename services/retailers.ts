@@ -0,0 +1,154 @@
+import { MARKETS } from './i18n';
+
+// --- Retailer Registry ---
+
+// A store Gifty can link a recommendation to. `searchUrl` is a template where
+// `{query}` is replaced by the URL-encoded product name; `trackingParams` (affiliate
+// IDs, UTM tags...) are appended to the final URL.
+export interface RetailerDefinition {
+  id: string;
+  name: string;
+  searchUrl: string;
+  // ISO 3166-1 alpha-2 country code of the market the store serves.
+  market: string;
+  trackingParams?: Record<string, string>;
+}
+
+export interface RetailerPreferences {
+  // Retailer ids in the user's preferred order. Ids missing here keep registry order after these.
+  order: string[];
+  disabled: string[];
+}
+
+const BUILT_IN_RETAILERS: RetailerDefinition[] = [
+  { id: 'trendyol', name: 'Trendyol', market: 'TR', searchUrl: 'https://www.trendyol.com/sr?q={query}' },
+  { id: 'hepsiburada', name: 'Hepsiburada', market: 'TR', searchUrl: 'https://www.hepsiburada.com/ara?q={query}' },
+  { id: 'ciceksepeti', name: 'Çiçeksepeti', market: 'TR', searchUrl: 'https://www.ciceksepeti.com/arama?query={query}' },
+  { id: 'amazon-tr', name: 'Amazon TR', market: 'TR', searchUrl: 'https://www.amazon.com.tr/s?k={query}' },
+  { id: 'amazon-de', name: 'Amazon.de', market: 'DE', searchUrl: 'https://www.amazon.de/s?k={query}' },
+  { id: 'otto', name: 'OTTO', market: 'DE', searchUrl: 'https://www.otto.de/suche/{query}' },
+  { id: 'mediamarkt-de', name: 'MediaMarkt', market: 'DE', searchUrl: 'https://www.mediamarkt.de/de/search.html?query={query}' },
+  { id: 'amazon-us', name: 'Amazon', market: 'US', searchUrl: 'https://www.amazon.com/s?k={query}' },
+  { id: 'etsy-us', name: 'Etsy', market: 'US', searchUrl: 'https://www.etsy.com/search?q={query}' },
+  { id: 'target', name: 'Target', market: 'US', searchUrl: 'https://www.target.com/s?searchTerm={query}' },
+  { id: 'amazon-uk', name: 'Amazon UK', market: 'GB', searchUrl: 'https://www.amazon.co.uk/s?k={query}' },
+  { id: 'john-lewis', name: 'John Lewis', market: 'GB', searchUrl: 'https://www.johnlewis.com/search?search-term={query}' },
+  { id: 'argos', name: 'Argos', market: 'GB', searchUrl: 'https://www.argos.co.uk/search/{query}/' }
+];
+
+// Deployments can add or override stores without touching code, e.g.
+// VITE_RETAILERS='[{"id":"thalia","name":"Thalia","market":"DE","searchUrl":"https://www.thalia.de/suche?sq={query}"}]'
+// Stores must belong to one of MARKETS, since a market also sets the language and
+// currency of the recommendations.
+const isRetailer = (r: any): r is RetailerDefinition => {
+  if (
+    typeof r?.id !== 'string' ||
+    typeof r.name !== 'string' ||
+    !MARKETS.some(m => m.code === r.market) ||
+    typeof r.searchUrl !== 'string' ||
+    !r.searchUrl.includes('{query}')
+  ) {
+    return false;
+  }
+  if (r.trackingParams !== undefined && (
+    typeof r.trackingParams !== 'object' ||
+    r.trackingParams === null ||
+    Array.isArray(r.trackingParams) ||
+    Object.values(r.trackingParams).some(value => typeof value !== 'string')
+  )) {
+    return false;
+  }
+  // Links are built while rendering, so a URL that can't be parsed must not get that far
+  try {
+    new URL(r.searchUrl.replace('{query}', 'x'));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const readConfiguredRetailers = (raw: string | undefined): RetailerDefinition[] => {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) throw new Error("VITE_RETAILERS must be a JSON array");
+    return parsed.filter(r => {
+      if (isRetailer(r)) return true;
+      console.warn("Ignoring invalid VITE_RETAILERS entry:", r);
+      return false;
+    });
+  } catch (error) {
+    console.warn("Ignoring invalid VITE_RETAILERS:", error);
+    return [];
+  }
+};
+
+const mergeById = (base: RetailerDefinition[], overrides: RetailerDefinition[]) => {
+  const merged = new Map(base.map(r => [r.id, r]));
+  overrides.forEach(r => merged.set(r.id, r));
+  return Array.from(merged.values());
+};
+
+export const RETAILER_REGISTRY: RetailerDefinition[] = mergeById(
+  BUILT_IN_RETAILERS,
+  readConfiguredRetailers(import.meta.env.VITE_RETAILERS)
+);
+
+export const buildRetailerUrl = (retailer: RetailerDefinition, query: string) => {
+  const url = new URL(retailer.searchUrl.replace('{query}', encodeURIComponent(query)));
+  Object.entries(retailer.trackingParams ?? {}).forEach(([key, value]) => url.searchParams.set(key, value));
+  return url.toString();
+};
+
+// --- Preferences ---
+
+const PREFS_KEY = 'gifty.retailers';
+
+export const loadRetailerPreferences = (): RetailerPreferences => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(PREFS_KEY) || 'null');
+    return {
+      order: Array.isArray(parsed?.order) ? parsed.order : [],
+      disabled: Array.isArray(parsed?.disabled) ? parsed.disabled : []
+    };
+  } catch {
+    return { order: [], disabled: [] };
+  }
+};
+
+export const saveRetailerPreferences = (prefs: RetailerPreferences) => {
+  try {
+    localStorage.setItem(PREFS_KEY, JSON.stringify(prefs));
+  } catch (error) {
+    console.warn("Could not persist retailer preferences:", error);
+  }
+};
+
+// Every retailer of the market, in the user's order (enabled or not), for the settings screen.
+export const orderRetailers = (prefs: RetailerPreferences, market: string) => {
+  const retailers = RETAILER_REGISTRY.filter(r => r.market === market);
+  const rank = (r: RetailerDefinition) => {
+    const idx = prefs.order.indexOf(r.id);
+    return idx === -1 ? prefs.order.length + retailers.indexOf(r) : idx;
+  };
+  return [...retailers].sort((a, b) => rank(a) - rank(b));
+};
+
+export const getEnabledRetailers = (prefs: RetailerPreferences, market: string) =>
+  orderRetailers(prefs, market).filter(r => !prefs.disabled.includes(r.id));
+
+// Moves a retailer one slot up (-1) or down (+1) and returns the new preferences.
+export const moveRetailer = (prefs: RetailerPreferences, id: string, direction: -1 | 1, market: string): RetailerPreferences => {
+  const order = orderRetailers(prefs, market).map(r => r.id);
+  const from = order.indexOf(id);
+  const to = from + direction;
+  if (from === -1 || to < 0 || to >= order.length) return prefs;
+  [order[from], order[to]] = [order[to], order[from]];
+  // Keep the ordering other markets already have
+  return { ...prefs, order: [...order, ...prefs.order.filter(o => !order.includes(o))] };
+};
+
+export const toggleRetailer = (prefs: RetailerPreferences, id: string): RetailerPreferences => ({
+  ...prefs,
+  disabled: prefs.disabled.includes(id) ? prefs.disabled.filter(d => d !== id) : [...prefs.disabled, id]
+});
@@ -0,0 +1,73 @@
+import { Budget, HistoryItem, StepResponse } from '../types';
+import { InterviewMode } from './interview';
+import { SessionOccasion } from './occasion';
+
+// --- Local Session Storage ---
+
+const STORAGE_KEY = 'gifty.sessions';
+const MAX_SESSIONS = 20;
+
+export interface SavedSession {
+  id: string;
+  updatedAt: number;
+  history: HistoryItem[];
+  // The step currently on screen; when `isFinal` it also carries the recommendations.
+  data: StepResponse;
+  // The response shown at each question index, so going back never needs the model.
+  steps: (StepResponse | null)[];
+  // Market the recommendations were written for, so reopened results link to the right stores.
+  market: string;
+  budget: Budget | null;
+  mode: InterviewMode;
+  // Answered by the bundled offline engine rather than the model
+  offline: boolean;
+  // Recipient profile the session was run for
+  profileId?: string;
+  // Batch the session is one member's interview of
+  batchId?: string;
+  // What the gift is for and when it is needed
+  occasion?: SessionOccasion;
+}
+
+export const createSessionId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const loadSessions = (): SavedSession[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeSessions = (sessions: SavedSession[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions.slice(0, MAX_SESSIONS)));
+  } catch (error) {
+    // Quota exceeded or storage disabled (private mode): persistence is best-effort.
+    console.warn("Could not persist session:", error);
+  }
+};
+
+// Upserts the session and moves it to the front (newest first).
+export const saveSession = (session: SavedSession) => {
+  const others = loadSessions().filter(s => s.id !== session.id);
+  writeSessions([session, ...others]);
+};
+
+export const deleteSession = (id: string) => {
+  writeSessions(loadSessions().filter(s => s.id !== id));
+};
+
+// The most recent interview that hasn't reached its recommendations yet.
+export const findResumableSession = (sessions: SavedSession[]) =>
+  sessions.find(s => !s.data.isFinal) ?? null;
+
+export const findCompletedSessions = (sessions: SavedSession[]) =>
+  sessions.filter(s => s.data.isFinal);
+
+// A short human label, e.g. "Mother", taken from the first answer.
+export const describeSession = (session: SavedSession, fallback: string) =>
+  session.history.find(h => h.role === 'user')?.text || fallback;
@@ -0,0 +1,87 @@
+import { HistoryItem, Recommendation } from '../types';
+import { normalizeRecommendations } from './recommendations';
+
+// --- Shareable Result Links ---
+
+// Results are encoded into the URL hash so links work on static hosting (GitHub Pages)
+// and never reach a server.
+const HASH_PREFIX = '#share=';
+
+export interface SharedAnswer {
+  question: string;
+  answer: string;
+}
+
+export interface SharedResult {
+  recommendations: Recommendation[];
+  answers: SharedAnswer[];
+  // Market the product names were written for
+  market: string;
+}
+
+// Compact wire format to keep URLs short; each recommendation is a
+// [name, englishName, rationale, category, priceTier] tuple.
+interface SharePayload {
+  v: 1;
+  r: [string, string, string, string, string][];
+  a?: [string, string][];
+  m: string;
+}
+
+const toBase64Url = (text: string) => {
+  let binary = '';
+  new TextEncoder().encode(text).forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string) => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+};
+
+export const summarizeAnswers = (history: HistoryItem[]): SharedAnswer[] => {
+  const answers: SharedAnswer[] = [];
+  for (let i = 0; i + 1 < history.length; i += 2) {
+    answers.push({ question: history[i].text, answer: history[i + 1].text });
+  }
+  return answers;
+};
+
+export const buildShareUrl = (result: SharedResult, baseUrl = window.location.href) => {
+  const payload: SharePayload = {
+    v: 1,
+    r: result.recommendations.map(({ name, englishName, rationale, category, priceTier }) =>
+      [name, englishName, rationale, category, priceTier]),
+    m: result.market
+  };
+  if (result.answers.length > 0) {
+    payload.a = result.answers.map(({ question, answer }) => [question, answer]);
+  }
+  const url = new URL(baseUrl);
+  url.hash = HASH_PREFIX.slice(1) + toBase64Url(JSON.stringify(payload));
+  return url.toString();
+};
+
+// Returns null for anything that isn't a well-formed share link.
+export const readSharedResult = (hash = window.location.hash): SharedResult | null => {
+  if (!hash.startsWith(HASH_PREFIX)) return null;
+  try {
+    const payload = JSON.parse(fromBase64Url(hash.slice(HASH_PREFIX.length))) as SharePayload;
+    if (payload?.v !== 1 || !Array.isArray(payload.r) || typeof payload.m !== 'string') return null;
+    return {
+      recommendations: normalizeRecommendations(payload.r.map(item => Array.isArray(item)
+        ? { name: item[0], englishName: item[1], rationale: item[2], category: item[3], priceTier: item[4] }
+        : null)),
+      answers: (payload.a ?? []).map(([question, answer]) => ({ question: String(question), answer: String(answer) })),
+      market: payload.m
+    };
+  } catch {
+    return null;
+  }
+};
+
+export const clearShareHash = () => {
+  if (window.location.hash.startsWith(HASH_PREFIX)) {
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+  }
+};
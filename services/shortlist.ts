@@ -0,0 +1,81 @@
+import { Recommendation } from '../types';
+import { normalizeRecommendations } from './recommendations';
+
+// --- Shortlist ---
+
+const STORAGE_KEY = 'gifty.shortlist';
+const MAX_ITEMS = 100;
+
+// A starred recommendation, kept across sessions.
+export interface ShortlistItem {
+  id: string;
+  recommendation: Recommendation;
+  // Market it was recommended for, so its links go to the right stores
+  market: string;
+  // Who it was suggested for, as shown in the session list
+  recipient: string;
+  profileId?: string;
+  addedAt: number;
+  // Set once bought; `boughtFor` is the profile it was bought for
+  boughtAt?: number;
+  boughtFor?: string;
+}
+
+// Who a recommendation is starred for, and on which market
+export interface ShortlistOwner {
+  market: string;
+  recipient: string;
+  profileId?: string;
+}
+
+// The same product starred from two sessions for the same person is one item; starred
+// for someone else, it is another.
+export const getShortlistId = (recommendation: Recommendation, { market, recipient, profileId }: ShortlistOwner) => {
+  const owner = profileId ? `profile:${profileId}` : `name:${recipient.trim().toLowerCase()}`;
+  return `${market}:${owner}:${recommendation.englishName.trim().toLowerCase()}`;
+};
+
+export const loadShortlist = (): ShortlistItem[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    if (!Array.isArray(parsed)) return [];
+    return parsed.flatMap((item: ShortlistItem) => {
+      const [recommendation] = normalizeRecommendations([item?.recommendation]);
+      return recommendation && typeof item.id === 'string' ? [{ ...item, recommendation }] : [];
+    });
+  } catch {
+    return [];
+  }
+};
+
+export const saveShortlist = (items: ShortlistItem[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(items.slice(0, MAX_ITEMS)));
+  } catch (error) {
+    console.warn("Could not persist shortlist:", error);
+  }
+};
+
+export const isShortlisted = (items: ShortlistItem[], recommendation: Recommendation, owner: ShortlistOwner) => {
+  const id = getShortlistId(recommendation, owner);
+  return items.some(item => item.id === id);
+};
+
+// Stars or unstars a recommendation; new items go to the front.
+export const toggleShortlistItem = (
+  items: ShortlistItem[],
+  recommendation: Recommendation,
+  { market, recipient, profileId }: ShortlistOwner
+): ShortlistItem[] => {
+  const id = getShortlistId(recommendation, { market, recipient, profileId });
+  if (items.some(item => item.id === id)) {
+    return items.filter(item => item.id !== id);
+  }
+  return [{ id, recommendation, market, recipient, profileId, addedAt: Date.now() }, ...items];
+};
+
+export const removeShortlistItem = (items: ShortlistItem[], id: string) =>
+  items.filter(item => item.id !== id);
+
+export const markShortlistItemBought = (items: ShortlistItem[], id: string, profileId: string): ShortlistItem[] =>
+  items.map(item => item.id === id ? { ...item, boughtAt: Date.now(), boughtFor: profileId } : item);
@@ -0,0 +1,131 @@
+// --- Streaming ---
+
+// What can be shown of a step while its JSON is still arriving.
+export interface StepPreview {
+  question: string;
+  options: string[];
+}
+
+const INCOMPLETE = Symbol('incomplete');
+
+// Parses the usable part of a JSON document that is still being received.
+// Strings, numbers and literals cut off mid-way are dropped, so every value returned
+// has arrived in full; objects and arrays keep whatever complete members they have so far.
+export const parsePartialJson = (text: string): unknown => {
+  let i = 0;
+
+  const skipWhitespace = () => {
+    while (i < text.length && /\s/.test(text[i])) i++;
+  };
+
+  const parseString = (): string | typeof INCOMPLETE => {
+    if (text[i] !== '"') {
+      i = text.length;
+      return INCOMPLETE;
+    }
+    for (let j = i + 1; j < text.length; j++) {
+      if (text[j] === '\\') {
+        j++;
+      } else if (text[j] === '"') {
+        const raw = text.slice(i, j + 1);
+        i = j + 1;
+        try {
+          return JSON.parse(raw);
+        } catch {
+          return INCOMPLETE;
+        }
+      }
+    }
+    i = text.length;
+    return INCOMPLETE;
+  };
+
+  // A number at the very end may still grow, so it only counts once a delimiter follows
+  const parsePrimitive = (): unknown => {
+    const token = /[^,\]}\s]+/y;
+    token.lastIndex = i;
+    const match = token.exec(text);
+    if (!match) {
+      i = text.length;
+      return INCOMPLETE;
+    }
+    i += match[0].length;
+    if (i >= text.length) return INCOMPLETE;
+    try {
+      return JSON.parse(match[0]);
+    } catch {
+      return INCOMPLETE;
+    }
+  };
+
+  const parseArray = (): unknown[] => {
+    const out: unknown[] = [];
+    i++;
+    while (true) {
+      skipWhitespace();
+      if (i >= text.length) return out;
+      if (text[i] === ']') {
+        i++;
+        return out;
+      }
+      if (text[i] === ',') {
+        i++;
+        continue;
+      }
+      const value = parseValue();
+      if (value !== INCOMPLETE) out.push(value);
+    }
+  };
+
+  const parseObject = (): Record<string, unknown> => {
+    const out: Record<string, unknown> = {};
+    i++;
+    while (true) {
+      skipWhitespace();
+      if (i >= text.length) return out;
+      if (text[i] === '}') {
+        i++;
+        return out;
+      }
+      if (text[i] === ',') {
+        i++;
+        continue;
+      }
+      const key = parseString();
+      if (key === INCOMPLETE) return out;
+      skipWhitespace();
+      if (text[i] !== ':') {
+        i = text.length;
+        return out;
+      }
+      i++;
+      const value = parseValue();
+      if (value !== INCOMPLETE) out[key] = value;
+    }
+  };
+
+  const parseValue = (): unknown => {
+    skipWhitespace();
+    if (i >= text.length) return INCOMPLETE;
+    if (text[i] === '{') return parseObject();
+    if (text[i] === '[') return parseArray();
+    if (text[i] === '"') return parseString();
+    return parsePrimitive();
+  };
+
+  const value = parseValue();
+  return value === INCOMPLETE ? undefined : value;
+};
+
+// Null until the question has fully arrived, and for final steps, which go straight to results.
+// The question comes before `isFinal`, so it is only shown once the step is known not to be
+// final or has a complete option; a concluding phrase never flashes up as a question.
+export const readStepPreview = (text: string): StepPreview | null => {
+  const raw = parsePartialJson(text) as any;
+  if (!raw || typeof raw !== 'object' || typeof raw.question !== 'string' || raw.isFinal === true) {
+    return null;
+  }
+  const options: string[] = Array.isArray(raw.options) ? raw.options.filter((o: unknown) => typeof o === 'string') : [];
+  if (raw.isFinal !== false && options.length === 0) return null;
+  return { question: raw.question, options };
+};
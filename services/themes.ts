@@ -0,0 +1,156 @@
+import { Theme } from '../types';
+
+// --- Built-in Themes ---
+
+export interface NamedTheme extends Theme {
+  name: string;
+}
+
+// 15 Curated Themes: Optimized for eye comfort and aesthetic appeal.
+export const THEMES: NamedTheme[] = [
+  // 1. Classic Clean (High Contrast)
+  { name: "Classic Clean", bg: "#ffffff", text: "#0f172a", primary: "#2563eb", secondary: "#f1f5f9", accent: "#3b82f6" },
+  // 2. Soft Charcoal (Dark Mode Friendly)
+  { name: "Soft Charcoal", bg: "#18181b", text: "#e4e4e7", primary: "#a1a1aa", secondary: "#27272a", accent: "#d4d4d8" },
+  // 3. Warm Sepia (Reading Mode)
+  { name: "Warm Sepia", bg: "#fdf6e3", text: "#433422", primary: "#b58900", secondary: "#eee8d5", accent: "#cb4b16" },
+  // 4. Midnight Navy (Deep Blue)
+  { name: "Midnight Navy", bg: "#0f172a", text: "#e2e8f0", primary: "#38bdf8", secondary: "#1e293b", accent: "#7dd3fc" },
+  // 5. Mint Sage (Calm Nature)
+  { name: "Mint Sage", bg: "#ecfdf5", text: "#064e3b", primary: "#10b981", secondary: "#d1fae5", accent: "#34d399" },
+  // 6. Royal Amethyst (Rich Purple)
+  { name: "Royal Amethyst", bg: "#2e1065", text: "#f3e8ff", primary: "#c084fc", secondary: "#4c1d95", accent: "#d8b4fe" },
+  // 7. Airy Sky (Light Blue)
+  { name: "Airy Sky", bg: "#f0f9ff", text: "#0c4a6e", primary: "#0ea5e9", secondary: "#e0f2fe", accent: "#38bdf8" },
+  // 8. Deep Forest (Dark Green)
+  { name: "Deep Forest", bg: "#022c22", text: "#ecfdf5", primary: "#2dd4bf", secondary: "#115e59", accent: "#5eead4" },
+  // 9. Gentle Rose (Soft Pink)
+  { name: "Gentle Rose", bg: "#fff1f2", text: "#881337", primary: "#f43f5e", secondary: "#ffe4e6", accent: "#fb7185" },
+  // 10. Slate Grey (Neutral Dark)
+  { name: "Slate Grey", bg: "#27272a", text: "#fafafa", primary: "#71717a", secondary: "#3f3f46", accent: "#a1a1aa" },
+  // 11. Sunset Earth (Warm Orange)
+  { name: "Sunset Earth", bg: "#fff7ed", text: "#7c2d12", primary: "#ea580c", secondary: "#ffedd5", accent: "#fb923c" },
+  // 12. Ocean Depth (Blue Contrast)
+  { name: "Ocean Depth", bg: "#172554", text: "#dbeafe", primary: "#60a5fa", secondary: "#1e3a8a", accent: "#93c5fd" },
+  // 13. Lavender Haze (Soft Purple)
+  { name: "Lavender Haze", bg: "#faf5ff", text: "#581c87", primary: "#a855f7", secondary: "#f3e8ff", accent: "#c084fc" },
+  // 14. Olive Garden (Earthy Green)
+  { name: "Olive Garden", bg: "#f7fee7", text: "#365314", primary: "#65a30d", secondary: "#ecfccb", accent: "#84cc16" },
+  // 15. True OLED (Maximum Black)
+  { name: "True OLED", bg: "#000000", text: "#e5e5e5", primary: "#bb86fc", secondary: "#1f1f1f", accent: "#03dac6" }
+];
+
+// Used when the theme follows the system light/dark setting
+const LIGHT_THEME = 0;
+const DARK_THEME = 3;
+
+// --- Contrast ---
+
+// WCAG AA minimum for normal-size text
+export const WCAG_AA = 4.5;
+
+const channel = (value: number) => {
+  const c = value / 255;
+  return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+};
+
+// WCAG relative luminance of a #rrggbb colour.
+export const relativeLuminance = (hex: string) => {
+  const n = parseInt(hex.slice(1), 16);
+  return 0.2126 * channel((n >> 16) & 255) + 0.7152 * channel((n >> 8) & 255) + 0.0722 * channel(n & 255);
+};
+
+export const contrastRatio = (a: string, b: string) => {
+  const [light, dark] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+};
+
+export type ContrastCheckId = 'text' | 'cards' | 'buttons' | 'accent';
+
+// The slot pairs the UI actually draws text with: body text, text on cards,
+// labels on primary buttons (and primary links on the page) and accent messages.
+const CONTRAST_PAIRS: Record<ContrastCheckId, [keyof Theme, keyof Theme]> = {
+  text: ['text', 'bg'],
+  cards: ['text', 'secondary'],
+  buttons: ['bg', 'primary'],
+  accent: ['accent', 'bg']
+};
+
+export interface ContrastCheck {
+  id: ContrastCheckId;
+  ratio: number;
+  passes: boolean;
+}
+
+export const checkContrast = (theme: Theme): ContrastCheck[] =>
+  (Object.entries(CONTRAST_PAIRS) as [ContrastCheckId, [keyof Theme, keyof Theme]][]).map(([id, [fg, bg]]) => {
+    const ratio = contrastRatio(theme[fg], theme[bg]);
+    return { id, ratio, passes: ratio >= WCAG_AA };
+  });
+
+export const meetsContrast = (theme: Theme) => checkContrast(theme).every(check => check.passes);
+
+// --- Theme Preferences ---
+
+// 'random' picks a new built-in theme on every step; 'system' follows the OS light/dark
+// setting; 'pinned' keeps one built-in theme, or the custom one.
+export type ThemeMode = 'random' | 'system' | 'pinned';
+
+export interface ThemePreferences {
+  mode: ThemeMode;
+  pinned: number | 'custom';
+  custom: Theme | null;
+}
+
+const PREFS_KEY = 'gifty.theme';
+
+export const DEFAULT_THEME_PREFERENCES: ThemePreferences = { mode: 'random', pinned: 0, custom: null };
+
+export const THEME_SLOTS: (keyof Theme)[] = ['bg', 'text', 'primary', 'secondary', 'accent'];
+
+const isColor = (value: unknown): value is string =>
+  typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+
+// Custom themes that were edited by hand in storage still have to pass the contrast check.
+const readCustomTheme = (value: any): Theme | null => {
+  if (!THEME_SLOTS.every(slot => isColor(value?.[slot]))) return null;
+  const theme = Object.fromEntries(THEME_SLOTS.map(slot => [slot, value[slot]])) as unknown as Theme;
+  return meetsContrast(theme) ? theme : null;
+};
+
+export const loadThemePreferences = (): ThemePreferences => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(PREFS_KEY) || 'null');
+    const custom = readCustomTheme(parsed?.custom);
+    const pinned = parsed?.pinned === 'custom' && custom ? 'custom'
+      : Number.isInteger(parsed?.pinned) && THEMES[parsed.pinned] ? parsed.pinned
+      : DEFAULT_THEME_PREFERENCES.pinned;
+    return {
+      mode: ['random', 'system', 'pinned'].includes(parsed?.mode) ? parsed.mode : DEFAULT_THEME_PREFERENCES.mode,
+      pinned,
+      custom
+    };
+  } catch {
+    return DEFAULT_THEME_PREFERENCES;
+  }
+};
+
+export const saveThemePreferences = (prefs: ThemePreferences) => {
+  try {
+    localStorage.setItem(PREFS_KEY, JSON.stringify(prefs));
+  } catch (error) {
+    console.warn("Could not persist theme preferences:", error);
+  }
+};
+
+export const randomThemeIndex = () => Math.floor(Math.random() * THEMES.length);
+
+// The theme to draw with. `randomIndex` is the current pick of the random mode.
+export const resolveTheme = (prefs: ThemePreferences, randomIndex: number, systemDark: boolean): Theme => {
+  if (prefs.mode === 'system') return THEMES[systemDark ? DARK_THEME : LIGHT_THEME];
+  if (prefs.mode === 'pinned') {
+    if (prefs.pinned === 'custom') return prefs.custom ?? THEMES[0];
+    return THEMES[prefs.pinned] ?? THEMES[0];
+  }
+  return THEMES[randomIndex];
+};
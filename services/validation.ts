@@ -0,0 +1,133 @@
+import { StepResponse } from '../types';
+import { Language } from './i18n';
+import { normalizeRecommendations } from './recommendations';
+
+// --- Response Validation ---
+
+export interface ValidationContext {
+  questionIndex: number;
+  // The app demands the recommendations in this response
+  mustFinalize: boolean;
+  // Earliest question index at which the model may wrap up
+  earliestFinal: number;
+  interviewLanguage: Language;
+  productLanguage: Language;
+  // Gifts the recipient already has, or that went to someone else in the same batch
+  excludedGifts?: string[];
+}
+
+// `value` is only set when there are no problems.
+export interface ValidationResult {
+  value: StepResponse | null;
+  problems: string[];
+}
+
+// Thrown once the repair attempts are used up; `problems` are kept for logging.
+export class InvalidResponseError extends Error {
+  problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid model response: ${problems.join('; ')}`);
+    this.name = 'InvalidResponseError';
+    this.problems = problems;
+  }
+}
+
+// Rule 5 forbids money questions; these catch the usual phrasings per interview language.
+// Whole words only, and "spend" only where it is about money, so that a question like
+// "How do they spend their free time?" is not sent back for repair.
+const MONEY_WORDS: Record<Language, RegExp> = {
+  en: /\b(budgets?|prices?|pricing|money|costs?|afford(able)?)\b|\bspend(ing)? (on|for)\b|\bhow much\b[^?]*\bspend\b/i,
+  tr: /(?<!\p{L})(bütçe\p{L}*|fiyat\p{L}*|ücret\p{L}*|maliyet\p{L}*|para(sı|nız|yı|yla|ya)?)(?!\p{L})|ne kadar\b[^?]*harca/iu,
+  de: /(?<!\p{L})(budgets?|preis(e|en)?|geld(es)?|kosten|kostet|bezahlen)(?!\p{L})|wie viel\b[^?]*ausgeben/iu
+};
+
+const MIN_OPTIONS = 2;
+
+// Checks a raw model payload against the schema and the interview rules.
+// Problems are phrased as instructions the model can act on in a repair request.
+export const validateStepResponse = (text: string | undefined, ctx: ValidationContext): ValidationResult => {
+  if (!text || !text.trim()) {
+    return { value: null, problems: ["The response was empty. Respond with the JSON object."] };
+  }
+
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { value: null, problems: ["The response was not valid JSON. Respond with a single JSON object only."] };
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { value: null, problems: ["The response must be a JSON object with 'question', 'options', 'isFinal' and 'recommendations'."] };
+  }
+
+  const problems: string[] = [];
+
+  if (typeof raw.question !== 'string' || !raw.question.trim()) {
+    problems.push("'question' must be a non-empty string.");
+  }
+  if (typeof raw.isFinal !== 'boolean') {
+    problems.push("'isFinal' must be a boolean.");
+  }
+
+  const options: string[] = Array.isArray(raw.options)
+    ? Array.from(new Set<string>(raw.options.filter((o: unknown) => typeof o === 'string').map((o: string) => o.trim()).filter(Boolean)))
+    : [];
+  const recommendations = normalizeRecommendations(raw.recommendations);
+  const isFinal = raw.isFinal === true;
+
+  if (isFinal) {
+    if (recommendations.length === 0) {
+      problems.push("'isFinal' is true but 'recommendations' is empty. Provide 6-10 recommendations.");
+    }
+    if (!ctx.mustFinalize && ctx.questionIndex < ctx.earliestFinal) {
+      problems.push(`It is too early to finish. Set 'isFinal' to false and ask question ${ctx.questionIndex}.`);
+    }
+    // Brand names legitimately match across languages, so only flag a mostly-English list
+    const untranslated = recommendations.filter(r => r.name.trim().toLowerCase() === r.englishName.trim().toLowerCase());
+    if (ctx.productLanguage !== 'en' && untranslated.length > recommendations.length / 2) {
+      problems.push("The recommendation 'name' fields are in English. Write them in the market language and keep English only in 'englishName'.");
+    }
+    const excluded = new Set((ctx.excludedGifts ?? []).map(g => g.trim().toLowerCase()));
+    const repeated = recommendations.filter(r => excluded.has(r.name.trim().toLowerCase()) || excluded.has(r.englishName.trim().toLowerCase()));
+    if (repeated.length > 0) {
+      problems.push(`These were already given to the recipient or picked for someone else: ${repeated.map(r => r.name).join(', ')}. Replace them with different gifts.`);
+    }
+  } else {
+    if (ctx.mustFinalize) {
+      problems.push("The interview is over. Set 'isFinal' to true and provide the recommendations.");
+    }
+    if (options.length < MIN_OPTIONS) {
+      problems.push("A question needs 8-12 distinct answer 'options'.");
+    }
+    if (typeof raw.question === 'string' && MONEY_WORDS[ctx.interviewLanguage].test(raw.question)) {
+      problems.push("Questions about price, budget or money are forbidden. Ask about something else.");
+    }
+  }
+
+  if (problems.length > 0) {
+    return { value: null, problems };
+  }
+
+  return {
+    problems,
+    value: {
+      question: raw.question.trim(),
+      options: isFinal ? [] : options,
+      isFinal,
+      recommendations: isFinal ? recommendations : []
+    }
+  };
+};
+
+// The proxy only receives the problems, so `previous` is left out there.
+export const buildRepairPrompt = (originalPrompt: string, problems: string[], previous?: string) => `
+${originalPrompt}
+
+Your previous response broke the rules:
+${problems.map(p => `- ${p}`).join('\n')}
+${previous === undefined ? '' : `
+Previous response: ${previous.trim() || '(empty)'}
+`}
+Respond again with a corrected JSON object.
+`;
@@ -0,0 +1,66 @@
+// --- Shared Types ---
+
+export type AppState = 'intro' | 'occasion' | 'budget' | 'loading' | 'question' | 'results' | 'error' | 'batch';
+
+export interface HistoryItem {
+  role: 'model' | 'user';
+  // Flattened form, used for labels and older sessions
+  text: string;
+  // User turns only: the option cards picked and the free text typed, kept apart
+  selected?: string[];
+  detail?: string;
+}
+
+export type GiftCategory =
+  | 'tech'
+  | 'home'
+  | 'fashion'
+  | 'experience'
+  | 'hobby'
+  | 'wellness'
+  | 'books'
+  | 'food'
+  | 'kids'
+  | 'other';
+
+export type PriceTier = 'budget' | 'mid' | 'premium' | 'luxury';
+
+export interface Money {
+  amount: number;
+  // ISO 4217 code, e.g. "TRY"
+  currency: string;
+}
+
+// Either bound may be open, e.g. "up to 500".
+export interface Budget {
+  min: number | null;
+  max: number | null;
+  currency: string;
+}
+
+export interface Recommendation {
+  // Localized product name, used as the retailer search query.
+  name: string;
+  englishName: string;
+  // One sentence tying the pick back to the user's answers.
+  rationale: string;
+  category: GiftCategory;
+  priceTier: PriceTier;
+  // Only asked for when the user set a budget.
+  estimatedPrice?: Money;
+}
+
+export interface StepResponse {
+  question: string;
+  options: string[];
+  isFinal: boolean;
+  recommendations: Recommendation[];
+}
+
+export interface Theme {
+  bg: string;
+  text: string;
+  primary: string;
+  secondary: string;
+  accent: string;
+}
@@ -1,6 +1,7 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { giftyProxy } from './server/proxy';
 
 export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, '.', '');
@@ -10,7 +11,18 @@ export default defineConfig(({ mode }) => {
       port: 3000,
       host: '0.0.0.0',
     },
-    plugins: [react()],
+    plugins: [
+      react(),
+      // Server-side key (no VITE_ prefix, so it is never bundled) enables the next-step proxy
+      ...(env.GEMINI_API_KEY
+        ? [giftyProxy({
+          apiKey: env.GEMINI_API_KEY,
+          modelName: env.GEMINI_MODEL_NAME || undefined,
+          rateLimit: env.PROXY_RATE_LIMIT ? { requests: Number(env.PROXY_RATE_LIMIT), windowMs: 60 * 1000 } : undefined,
+          trustProxy: env.PROXY_TRUST_FORWARDED === 'true'
+        })]
+        : [])
+    ],
     resolve: {
       alias: {
         '@': path.resolve(__dirname, '.'),